@@ -0,0 +1,267 @@
+/**
+ * Response cache for AgentdexClient — per-endpoint TTLs, stale-while-revalidate,
+ * ETag revalidation and an offline mode that answers only from cache
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
+
+/** The API responses that are cached */
+export type CacheEndpoint = 'verify' | 'search' | 'nip05';
+
+export interface CacheEntry {
+  endpoint: CacheEndpoint;
+  body: unknown;
+  etag?: string;
+  /** Unix time (ms) the response was stored or last revalidated */
+  storedAt: number;
+  /** Fresh until this time (ms) */
+  expiresAt: number;
+  /** Served while revalidating in the background until this time (ms) */
+  staleUntil: number;
+}
+
+/**
+ * Where cached responses are kept. Entries are not dropped when they expire:
+ * offline mode still answers from them.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  entries(): Promise<[string, CacheEntry][]>;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export class MemoryCacheStore implements CacheStore {
+  private cache = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.cache.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  async entries(): Promise<[string, CacheEntry][]> {
+    return [...this.cache.entries()];
+  }
+}
+
+/**
+ * JSON file store, used by the CLI under its config directory
+ */
+export class FileCacheStore implements CacheStore {
+  private path: string;
+  private maxEntries: number;
+
+  constructor(path: string, maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.path = path;
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.read()[key];
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const cache = this.read();
+    delete cache[key];
+    cache[key] = entry;
+    const keys = Object.keys(cache);
+    for (const oldest of keys.slice(0, Math.max(0, keys.length - this.maxEntries))) delete cache[oldest];
+    this.write(cache);
+  }
+
+  async delete(key: string): Promise<void> {
+    const cache = this.read();
+    if (!(key in cache)) return;
+    delete cache[key];
+    this.write(cache);
+  }
+
+  async clear(): Promise<void> {
+    rmSync(this.path, { force: true });
+  }
+
+  async entries(): Promise<[string, CacheEntry][]> {
+    return Object.entries(this.read());
+  }
+
+  private read(): Record<string, CacheEntry> {
+    if (!existsSync(this.path)) return {};
+    try {
+      return JSON.parse(readFileSync(this.path, 'utf-8'));
+    } catch {
+      // A corrupt cache is only a cache
+      return {};
+    }
+  }
+
+  private write(cache: Record<string, CacheEntry>): void {
+    const dir = this.path.substring(0, this.path.lastIndexOf('/'));
+    if (dir) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.path, JSON.stringify(cache) + '\n', { mode: 0o600 });
+  }
+}
+
+/** How long each endpoint's responses stay fresh, in ms */
+export const DEFAULT_CACHE_TTLS: Record<CacheEndpoint, number> = {
+  verify: 60_000,
+  search: 30_000,
+  nip05: 300_000,
+};
+
+export interface CacheOptions {
+  /** Default: an in-memory store */
+  store?: CacheStore;
+  /** Per-endpoint freshness in ms; 0 turns caching off for that endpoint */
+  ttlMs?: Partial<Record<CacheEndpoint, number>>;
+  /** How long past its TTL a response is still served while it revalidates, in ms (default 300000) */
+  staleWhileRevalidateMs?: number;
+  /** Answer only from the cache, however old; never touch the network */
+  offline?: boolean;
+  /** Called whenever a response is served from the cache */
+  onHit?: (hit: CacheHit) => void;
+}
+
+export interface CacheHit {
+  /** Request path, e.g. /api/v1/agents/verify?pubkey=... */
+  path: string;
+  endpoint: CacheEndpoint;
+  /** Unix time (ms) the response was stored or last revalidated */
+  storedAt: number;
+  /** Whether it was past its TTL */
+  stale: boolean;
+  /** Whether a fresh copy is being fetched in the background (stale-while-revalidate) */
+  revalidating: boolean;
+}
+
+export interface CacheStats {
+  entries: number;
+  fresh: number;
+  stale: number;
+  byEndpoint: Record<CacheEndpoint, number>;
+  /** Unix time (ms) of the oldest and newest entries, null when empty */
+  oldest: number | null;
+  newest: number | null;
+}
+
+/**
+ * The cache-relevant parts of a Cache-Control header
+ */
+export function parseCacheControl(value: string | null): { noStore: boolean; noCache: boolean; maxAge?: number; staleWhileRevalidate?: number } {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (value || '').split(',')) {
+    const [name, arg] = part.trim().toLowerCase().split('=');
+    if (name) directives.set(name, arg?.replace(/"/g, ''));
+  }
+  const seconds = (name: string) => {
+    const n = Number(directives.get(name));
+    return directives.has(name) && Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+  return {
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    maxAge: seconds('s-maxage') ?? seconds('max-age'),
+    staleWhileRevalidate: seconds('stale-while-revalidate'),
+  };
+}
+
+/**
+ * Endpoint policy on top of a CacheStore. Used by AgentdexClient; it decides
+ * what is cached and for how long, the client decides when to revalidate.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  readonly offline: boolean;
+  private ttls: Record<CacheEndpoint, number>;
+  private staleMs: number;
+  private onHit?: (hit: CacheHit) => void;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.offline = options.offline ?? false;
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttlMs };
+    this.staleMs = options.staleWhileRevalidateMs ?? 300_000;
+    this.onHit = options.onHit;
+  }
+
+  /** Which cached endpoint a GET path belongs to, if any */
+  endpointOf(path: string): CacheEndpoint | null {
+    const pathname = path.split('?')[0];
+    const endpoint: CacheEndpoint | null =
+      pathname === '/api/v1/agents/verify' ? 'verify'
+        : pathname === '/api/v1/agents' ? 'search'
+          : pathname === '/.well-known/nostr.json' ? 'nip05'
+            : null;
+    return endpoint && this.ttls[endpoint] > 0 ? endpoint : null;
+  }
+
+  /**
+   * Store a response, following its Cache-Control: no-store drops it,
+   * no-cache makes it revalidate on every use, max-age overrides the TTL
+   */
+  async put(key: string, endpoint: CacheEndpoint, body: unknown, headers: Headers, etag?: string): Promise<void> {
+    const control = parseCacheControl(headers.get('cache-control'));
+    if (control.noStore) {
+      await this.store.delete(key);
+      return;
+    }
+    const ttl = control.noCache ? 0 : control.maxAge !== undefined ? control.maxAge * 1000 : this.ttls[endpoint];
+    const stale = control.noCache ? 0 : control.staleWhileRevalidate !== undefined ? control.staleWhileRevalidate * 1000 : this.staleMs;
+    const now = Date.now();
+    await this.store.set(key, {
+      endpoint,
+      body,
+      etag: headers.get('etag') ?? etag,
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + stale,
+    });
+  }
+
+  /** Report a response served from the cache, and hand out a copy of it */
+  served<T>(path: string, entry: CacheEntry, revalidating = false): T {
+    this.onHit?.({ path, endpoint: entry.endpoint, storedAt: entry.storedAt, stale: Date.now() >= entry.expiresAt, revalidating });
+    return structuredClone(entry.body) as T;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const entries = (await this.store.entries()).map(([, entry]) => entry);
+    const now = Date.now();
+    const stored = entries.map((entry) => entry.storedAt);
+    return {
+      entries: entries.length,
+      fresh: entries.filter((entry) => now < entry.expiresAt).length,
+      stale: entries.filter((entry) => now >= entry.expiresAt).length,
+      byEndpoint: {
+        verify: entries.filter((entry) => entry.endpoint === 'verify').length,
+        search: entries.filter((entry) => entry.endpoint === 'search').length,
+        nip05: entries.filter((entry) => entry.endpoint === 'nip05').length,
+      },
+      oldest: stored.length ? Math.min(...stored) : null,
+      newest: stored.length ? Math.max(...stored) : null,
+    };
+  }
+}
@@ -2,16 +2,36 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import inquirer from 'inquirer';
 import qrcode from 'qrcode-terminal';
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync, statSync, readdirSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { nip19 } from 'nostr-tools';
-import { AgentdexClient } from './client.js';
-import { parseSecretKey, getNpub, getPubkeyHex, createProfileEvent, buildKind0Event, publishToRelays, createNote, updateKind0, generateAndSaveKeypair } from './nostr.js';
-import { payInvoice } from './nwc.js';
+import { AgentdexClient, AgentdexApiError } from './client.js';
+import type { AgentSummary, ClaimResult, SearchOptions, VerifyManyResult } from './client.js';
+import { parseProfileEvent, parseSecretKey, readKeyFile, saveKeyFile, isEncryptedKeyFile, encryptSecretKey, getNpub, getPubkeyHex, createProfileEvent, buildKind0Event, buildProfileUpdateEvent, fetchAgentProfile, publishEvent, PublishError, createNote, updateKind0, generateAndSaveKeypair, DEFAULT_RELAYS } from './nostr.js';
+import type { FetchedAgentProfile, Kind0Fields, PortfolioItem, PublishOptions, PublishReport, RelayPublishResult } from './nostr.js';
+import { fetchRelayList, relaysForAuthor, normalizeRelayUrl, writeRelays, readRelays, addRelay, removeRelay, buildRelayListEvent, RELAY_LIST_INDEXERS, type RelayList, type RelayListEntry } from './relays.js';
+import { payInvoice, checkInvoice, decodeInvoice, getBalance, lookupPayment, SpendingLimitError } from './nwc.js';
+import { SpendingLedger, BUDGET_PERIODS, type BudgetPeriod } from './spending.js';
+import { LocalSigner, connectBunker, type Signer } from './signer.js';
+import { FilePaymentStore, PaymentError, type PendingPayment, type PaymentFlowOptions, type PaymentKind } from './payments.js';
+import type { VerifiedEvent } from 'nostr-tools/pure';
+import { loadConfig, saveConfig, configDir, configPath, resolveIdentity, activeIdentityName, normalizeIdentityKey, IDENTITY_KEYS, SECRET_KEYS } from './config.js';
+import type { IdentityConfig } from './config.js';
+import { loadManifest, serializeManifest, manifestFormat, manifestProfile, manifestKind0, lintManifest, type AgentManifest } from './manifest.js';
+import { setStatus, Heartbeat, type StatusResult } from './heartbeat.js';
+import { diagnoseAgent, fixAgent, type DoctorFinding, type DoctorFix, type DoctorFixResult } from './doctor.js';
+import { requestZapInvoice, waitForZapReceipt, fetchZaps, type ZapInvoice } from './zaps.js';
+import { fetchPayRequest } from './lnurl.js';
+import { resolveNip05 } from './nip05.js';
+import { FileCacheStore, type CacheHit } from './cache.js';
+import { DevServer } from './devserver.js';
+import { fetchFleet, renderFleetTree, type FleetNode } from './fleet.js';
+import { sendDirectMessage, fetchInbox, MessagingPolicyError, type InboxMessage, type SendMessageResult } from './messaging.js';
+import { AGENT_STATUSES, MESSAGING_POLICIES, type AgentStatus, validateProfile, validateProfileUpdate, validateKind0, nip05NameProblem, toHexPubkey, hasErrors, ProfileValidationError, type ValidationIssue } from './validate.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -22,571 +42,3154 @@ const program = new Command();
 program
   .name('agentdex')
   .description('CLI for the agentdex AI agent directory')
-  .version(pkg.version);
+  .version(pkg.version)
+  .option('--profile <name>', 'Named identity from the agentdex config file')
+  .option('--format <format>', 'Output format: table, json, ndjson or csv', 'table')
+  .option('--json', 'Shorthand for --format json')
+  .option('--offline', 'Answer directory lookups only from the local cache')
+  .configureHelp({ showGlobalOptions: true });
+
+// ==================== OUTPUT ====================
+
+const OUTPUT_FORMATS = ['table', 'json', 'ndjson', 'csv'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Encodings accepted by `keys export --encoding`; --format used to take them and is deprecated for it */
+const KEY_ENCODINGS = ['npub', 'ncryptsec', 'nsec', 'hex'];
+
+let outputFormat: OutputFormat = 'table';
+
+/** Set once a result has been printed, so a later failure doesn't print a second document */
+let emitted = false;
+
+program.hook('preAction', (_, actionCommand) => {
+  const { format, json } = program.opts();
+  if (json) {
+    outputFormat = 'json';
+  } else if (actionCommand.name() === 'export' && actionCommand.parent?.name() === 'keys' && KEY_ENCODINGS.includes(format)) {
+    console.error(chalk.yellow(`⚠ keys export --format ${format} is deprecated and will be removed. Use --encoding ${format}.`));
+    outputFormat = 'table';
+  } else if (OUTPUT_FORMATS.includes(format)) {
+    outputFormat = format;
+  } else {
+    console.error(chalk.red(`Unknown format "${format}". Use ${OUTPUT_FORMATS.join(', ')}.`));
+    process.exit(1);
+  }
+});
+
+/**
+ * Human-readable output. Goes to stdout for the table format and to stderr
+ * otherwise, so stdout only ever carries the structured result.
+ */
+function log(...args: unknown[]): void {
+  if (outputFormat === 'table') {
+    console.log(...args);
+  } else {
+    console.error(...args);
+  }
+}
+
+/** Prompts go to stderr so they never end up in piped output */
+const prompt = inquirer.createPromptModule({ output: process.stderr });
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(';') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+interface EmitOptions {
+  /** Rows for csv/ndjson when they differ from the JSON document */
+  rows?: object[];
+  /** CSV column order (defaults to every key seen in the rows) */
+  columns?: string[];
+}
+
+/**
+ * Print a command's structured result in the selected format. `render` prints
+ * the human-readable version for the table format.
+ */
+function emit(data: unknown, render: () => void, options: EmitOptions = {}): void {
+  emitted = true;
+  if (outputFormat === 'table') {
+    render();
+    return;
+  }
+  if (outputFormat === 'json') {
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
+  const rows = (options.rows ?? (Array.isArray(data) ? data : [data])) as Record<string, unknown>[];
+  if (outputFormat === 'ndjson') {
+    for (const row of rows) console.log(JSON.stringify(row));
+    return;
+  }
+
+  const columns = options.columns ?? [...new Set(rows.flatMap((row) => Object.keys(row ?? {})))];
+  console.log(columns.join(','));
+  for (const row of rows) console.log(columns.map((column) => csvCell(row?.[column])).join(','));
+}
+
+/*
+ * Structured results (json, ndjson and csv formats). Field names are part of
+ * the CLI's interface: add fields freely, but don't rename or remove them.
+ */
+
+/** `register` */
+interface RegisterOutput {
+  npub: string;
+  pubkey: string;
+  name: string | null;
+  /** Kind 31339 profile event */
+  eventId: string;
+  relays: string[];
+  relayResults: RelayPublishResult[];
+  kind0EventId: string | null;
+  kind0Relays: string[];
+  paid: boolean;
+  paymentHash: string | null;
+  amountSats: number | null;
+  claimUrl: string | null;
+}
+
+/** `update` */
+interface UpdateOutput {
+  npub: string;
+  changed: boolean;
+  dryRun: boolean;
+  eventId: string | null;
+  relays: string[];
+  relayResults: RelayPublishResult[];
+  added: string[][];
+  removed: string[][];
+  /** Set when --from republished the kind 0 profile */
+  kind0EventId: string | null;
+}
+
+/** `claim` */
+interface ClaimOutput {
+  name: string;
+  nip05: string;
+  npub: string;
+  paid: boolean;
+  paymentHash: string | null;
+  amountSats: number | null;
+  kind0EventId: string | null;
+  kind0Relays: string[];
+  relayResults: RelayPublishResult[];
+}
+
+/** `verify` with several targets, `--from-file` or stdin — one row per target */
+interface VerifyOutput {
+  target: string;
+  npub: string | null;
+  registered: boolean | null;
+  name: string | null;
+  trustScore: number | null;
+  capabilities: string[];
+  /** Verified, and met --min-trust and --require-registered */
+  passed: boolean;
+  error: string | null;
+}
+
+/** `whoami` */
+interface WhoamiOutput {
+  npub: string;
+  pubkey: string;
+  registered: boolean;
+  name: string | null;
+  trustScore: number | null;
+  capabilities: string[];
+  hasNostr: boolean;
+  hasAgentdex: boolean;
+}
+
+/** `publish` */
+interface PublishOutput {
+  npub: string;
+  eventId: string;
+  relays: string[];
+  relayResults: RelayPublishResult[];
+}
+
+/** `status set`, and each beat of `heartbeat` (one ndjson line per beat) */
+interface StatusOutput {
+  npub: string;
+  status: string;
+  message: string | null;
+  eventId: string;
+  relays: string[];
+  relayResults: RelayPublishResult[];
+  registered: boolean;
+  at: string;
+}
+
+/** `message` */
+interface MessageOutput {
+  to: string;
+  /** Id of the kind 14 message inside the gift wrap */
+  messageId: string;
+  /** Id of the kind 1059 gift wrap */
+  eventId: string;
+  feeSats: number;
+  paymentHash: string | null;
+  trustScore: number | null;
+  relays: string[];
+  relayResults: RelayPublishResult[];
+}
+
+/** `inbox` — one row per message */
+interface InboxOutput {
+  id: string;
+  from: string;
+  name: string | null;
+  trustScore: number | null;
+  at: string;
+  content: string;
+  allowed: boolean;
+  reason: string | null;
+  feeSats: number | null;
+  /** Whether your wallet confirmed receiving the fee, null if none was due */
+  feeVerified: boolean | null;
+}
+
+/** `zap` */
+interface ZapOutput {
+  to: string;
+  lud16: string;
+  amountSats: number;
+  comment: string | null;
+  invoice: string;
+  paymentHash: string;
+  /** True once paid over NWC or once the receipt arrived */
+  paid: boolean;
+  zapRequestId: string;
+  receiptId: string | null;
+}
+
+/** `zaps` — one row per zap */
+interface ZapsOutput {
+  id: string;
+  from: string;
+  amountSats: number;
+  comment: string;
+  eventId: string | null;
+  at: string;
+}
+
+/**
+ * Exit codes for known API failures, so scripts can branch on them
+ */
+const EXIT_CODES = {
+  error: 1,
+  invalid: 2,
+  disabled: 3,
+  nameTaken: 4,
+  rateLimited: 5,
+  publishFailed: 6,
+  refused: 7,
+} as const;
+
+/** The API path whose 409 means "name already taken" */
+const CLAIM_PATH = '/api/v1/agents/claim';
+
+/**
+ * Map an error to a user-facing message and exit code
+ */
+function describeError(err: unknown, action = 'Request'): { message: string; exitCode: number } {
+  if (err instanceof AgentdexApiError) {
+    if (err.code === 'offline') return { message: `${err.message}. Run it once without --offline to cache it.`, exitCode: EXIT_CODES.error };
+    switch (err.status) {
+      case 503:
+        return { message: `${action} is currently disabled on agentdex. Try again later.`, exitCode: EXIT_CODES.disabled };
+      case 409:
+        // Only the claim endpoint's conflict means the name is taken; elsewhere it's e.g. an expired invoice
+        if (err.path === CLAIM_PATH) return { message: `${action} failed: name already taken (${err.message})`, exitCode: EXIT_CODES.nameTaken };
+        return { message: `${action} failed (HTTP 409): ${err.message}`, exitCode: EXIT_CODES.error };
+      case 429: {
+        const wait = err.retryAfter !== undefined ? ` Retry in ${err.retryAfter}s.` : ' Try again later.';
+        return { message: `Rate limited by agentdex.${wait}`, exitCode: EXIT_CODES.rateLimited };
+      }
+      case 0:
+        return { message: `${action} failed: could not reach agentdex (${err.message})`, exitCode: EXIT_CODES.error };
+      default:
+        return { message: `${action} failed (HTTP ${err.status}): ${err.message}`, exitCode: EXIT_CODES.error };
+    }
+  }
+  if (err instanceof PublishError) {
+    return { message: `Publish failed: ${err.message}`, exitCode: EXIT_CODES.publishFailed };
+  }
+  if (err instanceof ProfileValidationError) {
+    return { message: err.message, exitCode: EXIT_CODES.invalid };
+  }
+  if (err instanceof MessagingPolicyError) {
+    return { message: `Message refused: ${err.message}`, exitCode: EXIT_CODES.refused };
+  }
+  if (err instanceof PaymentError) {
+    const reason = err.code === 'expired' ? 'Invoice expired before it was paid.' : 'Payment timeout (15 min).';
+    const hint = err.code === 'timeout' ? ` If you pay later, run: agentdex ${err.payment.kind} --resume ${err.payment.paymentHash}` : '';
+    return { message: `${reason}${hint}`, exitCode: EXIT_CODES.error };
+  }
+  return { message: `Error: ${(err as Error).message}`, exitCode: EXIT_CODES.error };
+}
+
+/**
+ * Print an error (failing the spinner if one is running) and exit
+ */
+function exitWithError(err: unknown, spinner?: Ora, action?: string): never {
+  const { message, exitCode } = describeError(err, action);
+  if (spinner) {
+    spinner.fail(message);
+  } else {
+    console.error(chalk.red(message));
+  }
+  if ((outputFormat === 'json' || outputFormat === 'ndjson') && !emitted) {
+    const api = err instanceof AgentdexApiError ? { status: err.status, code: err.code } : {};
+    const relays = err instanceof PublishError ? { relayResults: err.report.results } : {};
+    const invalid = err instanceof ProfileValidationError ? { issues: err.issues } : {};
+    const refused = err instanceof MessagingPolicyError ? { reason: err.reason } : {};
+    console.log(JSON.stringify({ error: { message, exitCode, ...api, ...relays, ...invalid, ...refused } }));
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Active identity from the config file (--profile, AGENTDEX_PROFILE, or `agentdex use`)
+ */
+function currentIdentity(): IdentityConfig {
+  return resolveIdentity(loadConfig(), program.opts().profile);
+}
+
+/**
+ * Relays to use: the identity's relays (or the defaults) plus any --relay extras
+ */
+function resolveRelays(options: { relay?: string[] }): string[] {
+  const { relays } = currentIdentity();
+  const base = relays?.length ? relays : DEFAULT_RELAYS;
+  return [...new Set([...base, ...(options.relay || [])].map(normalizeRelayUrl))];
+}
+
+/** Relay lists fetched during this run, by pubkey */
+const relayListCache = new Map<string, Promise<RelayList | null>>();
+
+function cachedRelayList(pubkeyHex: string, relays: string[]): Promise<RelayList | null> {
+  if (!relayListCache.has(pubkeyHex)) relayListCache.set(pubkeyHex, fetchRelayList(pubkeyHex, relays));
+  return relayListCache.get(pubkeyHex)!;
+}
+
+/**
+ * Relays to publish our own events to: resolveRelays plus the write relays
+ * from our kind 10002 list, so followers using the outbox model find them
+ */
+async function resolveWriteRelays(pubkeyHex: string, options: { relay?: string[] }): Promise<string[]> {
+  const base = resolveRelays(options);
+  const list = await cachedRelayList(pubkeyHex, base);
+  return [...new Set([...base, ...(list ? writeRelays(list.entries) : [])])];
+}
+
+/**
+ * Build an API client from flags, then the active identity, then env vars.
+ * `baseUrl` pins the server, e.g. the one a saved payment was made against.
+ */
+function createClient(options: { apiKey?: string; baseUrl?: string } = {}): AgentdexClient {
+  const identity = currentIdentity();
+  return new AgentdexClient({
+    apiKey: options.apiKey || identity.apiKey,
+    baseUrl: options.baseUrl || identity.baseUrl,
+    cache: { store: cacheStore(), offline: !!program.opts().offline, onHit: warnIfStale },
+  });
+}
+
+function cacheStore(): FileCacheStore {
+  return new FileCacheStore(join(configDir(), 'cache.json'));
+}
+
+/** "45s", "12m", "3h" or "2d" */
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+let warnedStale = false;
+
+/**
+ * Say once per run that results came from an expired cache entry rather
+ * than the directory. Goes to stderr so structured output stays clean.
+ */
+function warnIfStale(hit: CacheHit): void {
+  if (!hit.stale || hit.revalidating || warnedStale) return;
+  warnedStale = true;
+  const why = program.opts().offline ? 'Offline' : 'Could not reach agentdex';
+  console.error(chalk.yellow(`⚠ ${why}: showing cached results (${formatAge(Date.now() - hit.storedAt)} old), which may be stale.`));
+}
+
+/**
+ * Hex pubkey of a command's target: an npub, a hex pubkey or a NIP-05 identifier (name@domain)
+ */
+async function resolveTarget(target: string, client: AgentdexClient = createClient()): Promise<string> {
+  if (!target.includes('@')) return toHexPubkey(target, 'target');
+  const spinner = ora(`Resolving ${target}...`).start();
+  try {
+    const pubkey = await client.resolvePubkey(target);
+    spinner.stop();
+    return pubkey;
+  } catch (err) {
+    spinner.stop();
+    throw err;
+  }
+}
+
+/**
+ * NWC URI from --nwc, then the active identity, then NWC_URL
+ */
+function resolveNwc(options: { nwc?: string }): string | undefined {
+  return options.nwc || currentIdentity().nwc || process.env.NWC_URL;
+}
+
+/**
+ * Passphrase for encrypted keys: AGENTDEX_KEY_PASSPHRASE, or an interactive prompt
+ */
+async function getPassphrase(confirm = false): Promise<string> {
+  if (process.env.AGENTDEX_KEY_PASSPHRASE) return process.env.AGENTDEX_KEY_PASSPHRASE;
+  if (!process.stdin.isTTY) {
+    throw new Error('Key is encrypted. Set AGENTDEX_KEY_PASSPHRASE or run interactively.');
+  }
+  const { passphrase } = await prompt([
+    { type: 'password', name: 'passphrase', message: 'Key passphrase:', mask: '*', validate: (v: string) => v.length > 0 || 'Required' },
+  ]);
+  if (confirm) {
+    const { again } = await prompt([{ type: 'password', name: 'again', message: 'Repeat passphrase:', mask: '*' }]);
+    if (again !== passphrase) throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+async function parseKeyInput(raw: string): Promise<Uint8Array> {
+  if (raw.startsWith('ncryptsec')) return parseSecretKey(raw, await getPassphrase());
+  return parseSecretKey(raw);
+}
+
+async function loadKeyFile(path: string): Promise<Uint8Array> {
+  if (isEncryptedKeyFile(path)) return readKeyFile(path, await getPassphrase());
+  return readKeyFile(path);
+}
+
+/**
+ * Key file path for `keys` commands: --key-file, then the active identity, then the default
+ */
+const DEFAULT_KEY_PATH = `${process.env.HOME}/.config/nostr/agent.json`;
+
+function resolveKeyFilePath(options: { keyFile?: string }): string {
+  return options.keyFile || currentIdentity().keyFile || DEFAULT_KEY_PATH;
+}
+
+/**
+ * Resolve secret key from flags, the active identity, env, or the default key file
+ */
+async function resolveKey(options: { nsec?: string; keyFile?: string }, allowGenerate = false): Promise<Uint8Array> {
+  if (options.nsec) return parseKeyInput(options.nsec);
+  if (options.keyFile) return loadKeyFile(options.keyFile);
+
+  const identityKeyFile = currentIdentity().keyFile;
+  if (identityKeyFile) return loadKeyFile(identityKeyFile);
+
+  if (process.env.NOSTR_NSEC) return parseKeyInput(process.env.NOSTR_NSEC);
+  if (existsSync(DEFAULT_KEY_PATH)) return loadKeyFile(DEFAULT_KEY_PATH);
+
+  // Auto-generate for register if no key provided (encrypted if a passphrase is set)
+  if (allowGenerate) {
+    const { sk, npub, path } = generateAndSaveKeypair(DEFAULT_KEY_PATH, process.env.AGENTDEX_KEY_PASSPHRASE);
+    log('');
+    log(chalk.hex('#D4A574')('  🔑 No key found. Generated a new Nostr keypair.'));
+    log(chalk.gray(`  Saved to: ${path}`));
+    log(chalk.gray(`  npub: ${npub}`));
+    log('');
+    log(chalk.yellow('  ⚠️  IMPORTANT: Your secret key is in that file.'));
+    log(chalk.yellow('  Store it somewhere secure. If you lose it, you lose this identity.'));
+    log(chalk.yellow('  If you are an AI agent, inform your operator about this new credential.'));
+    log('');
+    return sk;
+  }
+
+  throw new Error('No key provided. Use --nsec, --key-file, --profile, or set NOSTR_NSEC env var.');
+}
+
+/**
+ * Remote signers opened during this run, closed once the command finishes
+ */
+const openSigners: Signer[] = [];
+
+async function closeSigners(): Promise<void> {
+  await Promise.all(openSigners.map((signer) => signer.close?.()));
+}
+
+/**
+ * Add --nsec, --key-file and --bunker, the options resolveSigner reads.
+ * `whose` names the key when it isn't the agent's own, e.g. "Parent's".
+ */
+function withSignerOptions<T extends Command>(cmd: T, whose?: string): T {
+  return cmd
+    .option('--nsec <nsec>', whose ? `${whose} Nostr secret key (nsec or hex)` : 'Nostr secret key (nsec or hex)')
+    .option('--key-file <path>', whose ? `${whose} JSON key file` : 'Path to JSON key file')
+    .option('--bunker <uri>', whose ? `${whose} NIP-46 remote signer (bunker://...)` : 'Sign with a NIP-46 remote signer (bunker://...)');
+}
+
+/**
+ * Resolve a signer: --bunker, then an explicit --nsec/--key-file, then the
+ * identity's bunker or NOSTR_BUNKER, then a local key via resolveKey
+ */
+async function resolveSigner(options: { nsec?: string; keyFile?: string; bunker?: string }, allowGenerate = false): Promise<Signer> {
+  const explicitKey = options.nsec || options.keyFile;
+  const bunkerUri = options.bunker || (!explicitKey ? currentIdentity().bunker || process.env.NOSTR_BUNKER : undefined);
+  if (!bunkerUri) return new LocalSigner(await resolveKey(options, allowGenerate));
+
+  const spinner = ora('Connecting to remote signer...').start();
+  try {
+    const signer = await connectBunker(bunkerUri, {
+      onAuth: (url) => spinner.info(`Approve this connection in your signer: ${url}`).start('Waiting for approval...'),
+    });
+    openSigners.push(signer);
+    spinner.stop();
+    return signer;
+  } catch (err) {
+    spinner.fail('Could not connect to remote signer');
+    throw err;
+  }
+}
+
+const collect = (val: string, acc: string[]) => [...acc, val];
+
+/**
+ * Parse a portfolio entry: "id,url,label,description" (new) or "url,label,desc" (old)
+ */
+function parsePortfolioEntry(entry: string): PortfolioItem {
+  const parts = entry.split(',').map((s: string) => s.trim());
+  if (parts.length >= 2 && parts[1]?.startsWith('http')) {
+    return { id: parts[0], url: parts[1], name: parts[2], description: parts[3] };
+  }
+  // Old format fallback
+  const id = (parts[1] || parts[0]).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+  return { id, url: parts[0], name: parts[1], description: parts[2] };
+}
+
+/**
+ * Print validation warnings, and throw if there are errors — before anything is signed
+ */
+function checkIssues(issues: ValidationIssue[]): void {
+  for (const issue of issues.filter((i) => i.severity === 'warning')) {
+    console.error(chalk.yellow(`  ⚠ ${issue.field} ${issue.message}`));
+  }
+  if (hasErrors(issues)) throw new ProfileValidationError(issues);
+}
+
+/**
+ * Drop undefined values so a spread doesn't clear fields set elsewhere
+ */
+function defined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Manifest fields given as register flags. Flags override the --from manifest.
+ */
+function manifestFromFlags(options: Record<string, any>): AgentManifest {
+  const portfolio = (options.portfolio || []).map(parsePortfolioEntry);
+  return defined({
+    name: options.name,
+    description: options.description,
+    capabilities: options.capabilities?.split(',').map((s: string) => s.trim()).filter(Boolean),
+    framework: options.framework,
+    model: options.model,
+    ownerType: options.ownerType,
+    ownerX: options.ownerX,
+    parent: options.parent,
+    status: options.status,
+    portfolio: portfolio.length > 0 ? portfolio : undefined,
+    skills: options.skill?.length > 0 ? options.skill : undefined,
+    experience: options.experience?.length > 0 ? options.experience : undefined,
+    avatar: options.avatar,
+    lightning: options.lightning,
+    website: options.website,
+    bot: options.bot ? true : undefined,
+    owner: options.owner,
+  });
+}
+
+// ==================== PUBLISH HELPERS ====================
+
+/**
+ * Add --quorum, --relay-retries and --relay-timeout, read by publishOptions
+ */
+function withPublishOptions<T extends Command>(cmd: T, quorumHelp = 'Fail unless at least this many relays accept the event'): T {
+  return cmd
+    .option('--quorum <n>', `${quorumHelp} (default 1)`)
+    .option('--relay-retries <n>', 'Retries per relay for timeouts, connection failures and rate limits (default 1)')
+    .option('--relay-timeout <ms>', 'Per-relay timeout in ms (default 10000)');
+}
+
+/**
+ * Relay publish settings from --quorum, --relay-retries and --relay-timeout
+ */
+function publishOptions(options: { quorum?: string; relayRetries?: string; relayTimeout?: string }): PublishOptions {
+  const parse = (value: string | undefined, flag: string) => {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} must be a whole number`);
+    return n;
+  };
+  return {
+    quorum: parse(options.quorum, '--quorum'),
+    retries: parse(options.relayRetries, '--relay-retries'),
+    timeoutMs: parse(options.relayTimeout, '--relay-timeout'),
+  };
+}
+
+/**
+ * Print one line per relay: accepted, or why it wasn't
+ */
+function printPublishReport(report: PublishReport): void {
+  for (const r of report.results) {
+    const attempts = r.attempts > 1 ? chalk.gray(` (${r.attempts} attempts)`) : '';
+    if (r.status === 'accepted') {
+      log(`    ${chalk.green('✓')} ${r.relay}${r.reason === 'duplicate' ? chalk.gray(' (already had it)') : ''}${attempts}`);
+    } else {
+      const why = r.status === 'rejected' ? r.message || 'rejected'
+        : r.status === 'timeout' ? 'no OK response (timed out)'
+        : r.message && r.message !== 'connection failed' ? `connection failed: ${r.message}` : 'connection failed';
+      log(`    ${chalk.red('✗')} ${r.relay} ${chalk.gray(`— ${why}`)}${attempts}`);
+    }
+  }
+}
+
+/**
+ * Publish with a spinner and per-relay breakdown. Throws PublishError if the quorum isn't met.
+ */
+async function publishWithReport(event: VerifiedEvent, relays: string[], options: Parameters<typeof publishOptions>[0], label = 'Publishing to Nostr relays...'): Promise<PublishReport> {
+  const publishSpinner = ora(label).start();
+  const report = await publishEvent(event, relays, publishOptions(options));
+  const summary = `Accepted by ${report.accepted.length}/${report.results.length} relays`;
+  if (report.ok) {
+    publishSpinner.succeed(summary);
+  } else {
+    publishSpinner.fail(`${summary} (needed ${report.quorum})`);
+  }
+  printPublishReport(report);
+  if (!report.ok) throw new PublishError(report);
+  return report;
+}
+
+// ==================== PAYMENT HELPERS ====================
+
+function paymentStore(): FilePaymentStore {
+  return new FilePaymentStore(join(configDir(), 'payments.json'));
+}
+
+function showInvoice(invoice: string): void {
+  qrcode.generate(invoice, { small: true }, (qr: string) => { log(qr); });
+  log(chalk.gray(`  bolt11: ${invoice}`));
+  log('');
+}
+
+function spendingLedger(): SpendingLedger {
+  return new SpendingLedger(join(configDir(), 'payments.log'));
+}
+
+/**
+ * Guardrails around NWC auto-pay: the invoice must match the quoted amount,
+ * stay under --max-sats and the identity's budget, fit the wallet balance,
+ * and be confirmed unless --yes. Every attempt is written to the audit log.
+ */
+async function guardedPay(nwcUri: string, payment: Pick<PendingPayment, 'invoice' | 'paymentHash' | 'amountSats'>, purpose: string, options: { maxSats?: string; yes?: boolean }): Promise<string> {
+  const identity = currentIdentity();
+  const identityName = activeIdentityName(loadConfig(), program.opts().profile) || 'default';
+  const ledger = spendingLedger();
+  const audit = (status: 'paid' | 'failed' | 'declined', extra: { preimage?: string; reason?: string; unpaid?: boolean } = {}) => ledger.append({
+    at: new Date().toISOString(),
+    identity: identityName,
+    purpose,
+    amountSats: payment.amountSats ?? 0,
+    paymentHash: payment.paymentHash,
+    invoice: payment.invoice,
+    status,
+    ...extra,
+  });
+
+  try {
+    const maxSats = options.maxSats !== undefined ? Number(options.maxSats) : identity.maxSats;
+    if (maxSats !== undefined && !Number.isFinite(maxSats)) throw new SpendingLimitError('--max-sats must be a number');
+    const invoice = checkInvoice(payment.invoice, {
+      expectedSats: payment.amountSats,
+      maxSats,
+      expectedPaymentHash: payment.paymentHash,
+    });
+    const amount = invoice.amountSats!;
+
+    if (identity.budgetSats !== undefined) ledger.checkBudget(identityName, amount, identity.budgetSats, identity.budgetPeriod);
+
+    try {
+      const balance = await getBalance(nwcUri);
+      if (balance < amount) throw new SpendingLimitError(`Wallet balance (${balance} sats) is below the invoice amount (${amount} sats)`);
+    } catch (err) {
+      if (err instanceof SpendingLimitError) throw err;
+      log(chalk.gray(`  Could not check wallet balance (${(err as Error).message}) — continuing`));
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) throw new SpendingLimitError('Auto-pay needs confirmation. Pass --yes to pay without prompting.');
+      const { ok } = await prompt([{ type: 'confirm', name: 'ok', default: false, message: `Pay ${amount.toLocaleString()} sats for ${purpose}?` }]);
+      if (!ok) throw new SpendingLimitError('Payment declined');
+    }
+  } catch (err) {
+    audit('declined', { reason: (err as Error).message });
+    throw err;
+  }
+
+  const paySpinner = ora('Paying invoice via NWC...').start();
+  try {
+    const { preimage } = await payInvoice(nwcUri, payment.invoice);
+    audit('paid', { preimage });
+    paySpinner.succeed('Invoice paid!');
+    return preimage;
+  } catch (err) {
+    // An NWC error or timeout doesn't mean the payment failed; ask the wallet before recording it
+    const found = await lookupPayment(nwcUri, payment.paymentHash).catch(() => undefined);
+    if (found?.direction === 'outgoing' && found.state === 'settled' && found.preimage) {
+      audit('paid', { preimage: found.preimage });
+      paySpinner.succeed('Invoice paid!');
+      return found.preimage;
+    }
+    audit('failed', { reason: (err as Error).message, unpaid: found === null || found?.state === 'failed' });
+    paySpinner.fail(`NWC payment failed: ${(err as Error).message}`);
+    throw err;
+  }
+}
+
+/**
+ * CLI hooks for the shared payment flow: stop the request spinner, show the
+ * invoice (or auto-pay over NWC), and spin while polling for payment
+ */
+function cliPaymentOptions(options: { nwc?: string; maxSats?: string; yes?: boolean }, spinner: Ora, heading: (payment: PendingPayment) => string) {
+  const nwcUri = resolveNwc(options);
+  const pollSpinner = ora('Waiting for payment...');
+
+  const flow: PaymentFlowOptions = {
+    store: paymentStore(),
+    onInvoice: (payment) => {
+      spinner.stop();
+      log('');
+      log(chalk.hex('#D4A574')(heading(payment)));
+      log(chalk.gray(`  Interrupted? Resume with: agentdex ${payment.kind} --resume ${payment.paymentHash}`));
+      log('');
+      if (!nwcUri) {
+        showInvoice(payment.invoice);
+        pollSpinner.start();
+      }
+    },
+    onPayerSuccess: () => {
+      pollSpinner.start();
+    },
+    onPayerError: (err, payment) => {
+      if (err instanceof SpendingLimitError) log(chalk.yellow(`  ⚠ Not auto-paying: ${err.message}`));
+      log('');
+      log(chalk.gray('  Pay manually:'));
+      showInvoice(payment.invoice);
+      pollSpinner.start();
+    },
+  };
+
+  if (nwcUri) {
+    flow.payer = async (_invoice, payment) => {
+      const purpose = payment.kind === 'claim' ? `claim ${payment.name}@agentdex.id` : 'agentdex registration';
+      await guardedPay(nwcUri, payment, purpose, options);
+    };
+  }
+
+  return { flow, pollSpinner };
+}
+
+/**
+ * Pick a persisted pending payment for this pubkey: by hash if given, else the newest
+ */
+async function findPendingPayment(kind: PaymentKind, pubkey: string, hash: string | true, name?: string): Promise<PendingPayment> {
+  const candidates = (await paymentStore().list())
+    .filter((p) => p.kind === kind && p.pubkey === pubkey)
+    .filter((p) => typeof hash !== 'string' || p.paymentHash === hash)
+    .filter((p) => !name || p.name === name)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  if (candidates.length === 0) {
+    throw new Error(`No pending ${kind} payment found. Run \`agentdex payments list\` to see saved invoices.`);
+  }
+  return candidates[0];
+}
+
+/**
+ * Build the merged kind 0 and publish it. Returns the publish report, or null if it couldn't be built.
+ */
+async function publishKind0(signer: Signer, fields: Kind0Fields, relays: string[], options: Parameters<typeof publishOptions>[0]): Promise<PublishReport | null> {
+  const k0Spinner = ora('Publishing kind 0 profile to Nostr relays...').start();
+  try {
+    const kind0 = await buildKind0Event(signer, fields, relays);
+    const report = await publishEvent(kind0, relays, publishOptions(options));
+    if (report.ok) {
+      k0Spinner.succeed(`Kind 0 published to ${report.accepted.length}/${report.results.length} relays`);
+    } else {
+      k0Spinner.warn('Kind 0 publish failed — agent may not appear on standard Nostr clients');
+    }
+    printPublishReport(report);
+    return report;
+  } catch {
+    k0Spinner.warn('Kind 0 publish failed — agent may not appear on standard Nostr clients');
+    return null;
+  }
+}
+
+/**
+ * Publish the registered kind 31339 event and kind 0, then print the result.
+ * Shared by free, paid and resumed registrations. Throws PublishError if the
+ * profile event misses the relay quorum (the registration itself has succeeded).
+ */
+async function finishRegistration(
+  signer: Signer,
+  event: VerifiedEvent,
+  result: Record<string, any>,
+  kind0Fields: Kind0Fields,
+  relays: string[],
+  options: Parameters<typeof publishOptions>[0],
+  payment?: PendingPayment,
+): Promise<void> {
+  const report = await publishEvent(event, relays, publishOptions(options));
+  log(chalk.gray(`  Profile accepted by ${report.accepted.length}/${report.results.length} relays`));
+  printPublishReport(report);
+
+  // Kind 0 is canonical for basic profile; kind 31339 is agent-specific metadata
+  const kind0 = await publishKind0(signer, kind0Fields, relays, options);
+  const published = report.accepted;
+
+  const output: RegisterOutput = {
+    npub: nip19.npubEncode(event.pubkey),
+    pubkey: event.pubkey,
+    name: kind0Fields.name ?? null,
+    eventId: event.id,
+    relays: published,
+    relayResults: report.results,
+    kind0EventId: kind0?.eventId ?? null,
+    kind0Relays: kind0?.accepted ?? [],
+    paid: !!payment,
+    paymentHash: payment?.paymentHash ?? null,
+    amountSats: payment?.amountSats ?? null,
+    claimUrl: result.claim_url ?? null,
+  };
+
+  emit(output, () => {
+    log('');
+    log(chalk.hex('#D4A574')(`  ✅ Registered on agentdex${payment ? '' : ' (free tier)'}`));
+    log(chalk.gray(`  npub: ${output.npub}`));
+    log(chalk.gray(`  Name: ${output.name}`));
+    log(chalk.gray(`  Published to: ${published.join(', ') || 'no relays'}`));
+    log(chalk.gray(`  Event ID: ${event.id}`));
+    if (output.claimUrl) {
+      log('');
+      log(chalk.hex('#D4A574')('  📋 Claim URL: ') + chalk.white(output.claimUrl));
+      log(chalk.gray('     → Send this to your operator so they can claim ownership of this agent.'));
+      log(chalk.gray('     → They\'ll verify via email to link this agent to their account.'));
+    }
+    log('');
+    log(chalk.gray(`  Run ${chalk.white('agentdex claim <name>')} to get ${chalk.hex('#D4A574')('<name>@agentdex.id')}`));
+    if (!payment) log(chalk.gray('  Next: Claim a NIP-05 name to get verified (first 100 free, then 5000 sats).'));
+    log('');
+  });
+
+  if (!report.ok) throw new PublishError(report);
+}
+
+// ==================== INIT ====================
+
+/** Written by `init --yes`, and when there's no terminal to prompt on */
+const MANIFEST_TEMPLATE: AgentManifest = {
+  name: 'My Agent',
+  description: 'What this agent does',
+  capabilities: ['coding'],
+  framework: 'openclaw',
+  model: 'claude-3.5-sonnet',
+  website: 'https://example.com',
+  bot: true,
+};
+
+program
+  .command('init [file]')
+  .description('Create an agent manifest for `register --from` (default agent.json)')
+  .option('--yaml', 'Write YAML (default when the file ends in .yaml or .yml)')
+  .option('--force', 'Overwrite an existing file')
+  .option('--yes', 'Write a template without prompting')
+  .action(async (fileArg: string | undefined, options) => {
+    try {
+      const path = fileArg || (options.yaml ? 'agent.yaml' : 'agent.json');
+      const format = options.yaml ? 'yaml' : manifestFormat(path);
+      if (existsSync(path) && !options.force) {
+        throw new Error(`${path} already exists. Use --force to overwrite.`);
+      }
+
+      let manifest = MANIFEST_TEMPLATE;
+      if (!options.yes && process.stdin.isTTY) {
+        const answers = await prompt([
+          { type: 'input', name: 'name', message: 'Agent name:', validate: (v: string) => v.length > 0 || 'Required' },
+          { type: 'input', name: 'description', message: 'Description (optional):' },
+          { type: 'input', name: 'capabilities', message: 'Capabilities (comma-separated):' },
+          { type: 'input', name: 'framework', message: 'Framework (optional):' },
+          { type: 'input', name: 'model', message: 'Model (optional):' },
+          { type: 'input', name: 'website', message: 'Website URL (optional):' },
+          { type: 'input', name: 'avatar', message: 'Avatar image URL (optional):' },
+          { type: 'input', name: 'lightning', message: 'Lightning address (optional):' },
+          { type: 'input', name: 'owner', message: 'Owner npub (optional):' },
+          { type: 'list', name: 'ownerType', message: 'Owner type:', choices: ['human', 'agent', 'org', 'skip'] },
+          { type: 'confirm', name: 'bot', message: 'Declare this pubkey as automated (bot)?', default: true },
+        ]);
+        const capabilities = answers.capabilities.split(',').map((s: string) => s.trim()).filter(Boolean);
+        manifest = defined({
+          name: answers.name,
+          description: answers.description || undefined,
+          capabilities: capabilities.length > 0 ? capabilities : undefined,
+          framework: answers.framework || undefined,
+          model: answers.model || undefined,
+          website: answers.website || undefined,
+          avatar: answers.avatar || undefined,
+          lightning: answers.lightning || undefined,
+          owner: answers.owner || undefined,
+          ownerType: answers.ownerType === 'skip' ? undefined : answers.ownerType,
+          bot: answers.bot,
+        });
+      }
+
+      writeFileSync(path, serializeManifest(manifest, format));
+      emit({ path, format }, () => {
+        log(chalk.green(`✅ Wrote ${path}`));
+        log(chalk.gray(`  Edit it, then run ${chalk.white(`agentdex register --from ${path}`)}`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== REGISTER ====================
+
+withPublishOptions(withSignerOptions(program.command('register')))
+  .description('Register your agent on agentdex')
+  .option('--name <name>', 'Agent name')
+  .option('--description <desc>', 'Agent description')
+  .option('--capabilities <caps>', 'Comma-separated capabilities')
+  .option('--framework <fw>', 'Framework (e.g., langchain, openclaw)')
+  .option('--model <model>', 'Model (e.g., claude-3.5-sonnet)')
+  .option('--website <url>', 'Website URL')
+  .option('--avatar <url>', 'Avatar image URL (sets picture in kind 0 profile)')
+  .option('--lightning <addr>', 'Lightning address (sets lud16 in kind 0 profile)')
+  .option('--owner-x <handle>', 'Owner X/Twitter handle (e.g., @username)')
+  .option('--owner <npub-or-hex>', 'Owner/operator Nostr pubkey (npub or hex) — sets kind 0 p tag for bidirectional verification')
+  .option('--owner-type <type>', 'Owner type: human, agent, org (sets owner_type tag on kind 31339)')
+  .option('--parent <npub-or-hex>', 'Parent/orchestrator agent pubkey (npub or hex)')
+  .option('--status <status>', `Initial status: ${AGENT_STATUSES.join(', ')} (default active)`)
+  .option('--bot', 'Add ["bot"] tag to kind 0 profile (declares this pubkey as automated)')
+  .option('--portfolio <entry>', 'Portfolio entry (format: "id,url,label,description") — repeatable', (val: string, acc: string[]) => [...acc, val], [])
+  .option('--skill <skill>', 'Skill tag (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
+  .option('--experience <exp>', 'Experience tag (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
+  .option('--from <file>', 'Read agent fields from a JSON or YAML manifest (flags override it)')
+  .option('--nwc <uri>', 'Nostr Wallet Connect URI for auto-pay')
+  .option('--max-sats <sats>', 'Refuse to auto-pay invoices above this amount')
+  .option('--yes', 'Auto-pay without asking for confirmation')
+  .option('--resume [paymentHash]', 'Resume a paid-but-unfinished registration')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
+  .action(async (options) => {
+    try {
+      const signer = await resolveSigner(options, !options.resume);
+      const pubHex = await signer.getPublicKey();
+      const npub = nip19.npubEncode(pubHex);
+      const spec: AgentManifest = { ...(options.from ? loadManifest(options.from) : {}), ...manifestFromFlags(options) };
+
+      if (options.resume) {
+        const pending = await findPendingPayment('register', pubHex, options.resume);
+        const event = pending.event as VerifiedEvent;
+        const spinner = ora(`Checking payment ${pending.paymentHash.substring(0, 12)}...`).start();
+        try {
+          await createClient({ apiKey: options.apiKey, baseUrl: pending.baseUrl }).resumePayment(pending, { store: paymentStore() });
+          spinner.succeed('Registered!');
+        } catch (err) {
+          exitWithError(err, spinner, 'Registration');
+        }
+        const registered = parseProfileEvent(event);
+        await finishRegistration(signer, event, {}, {
+          ...manifestKind0(spec),
+          name: registered.name,
+          about: registered.description,
+          bot: !!spec.bot,
+        }, await resolveWriteRelays(pubHex, options), options, pending);
+        process.exit(0);
+      }
+
+      // Interactive mode if name not provided
+      if (!spec.name) {
+        const answers = await prompt([
+          { type: 'input', name: 'name', message: 'Agent name:', validate: (v: string) => v.length > 0 || 'Required' },
+          { type: 'input', name: 'description', message: 'Description (optional):' },
+          { type: 'input', name: 'capabilities', message: 'Capabilities (comma-separated):' },
+          { type: 'input', name: 'framework', message: 'Framework (optional):' },
+        ]);
+        spec.name = answers.name;
+        spec.description = answers.description || spec.description;
+        spec.capabilities = answers.capabilities ? answers.capabilities.split(',').map((s: string) => s.trim()) : spec.capabilities;
+        spec.framework = answers.framework || spec.framework;
+      }
+
+      // Kind 0 is published after registering, so check it up front too
+      const profile = { ...manifestProfile(spec), status: spec.status || 'active' };
+      const kind0Fields = { ...manifestKind0(spec), about: spec.description || undefined, bot: !!spec.bot };
+      checkIssues([...validateProfile(profile), ...validateKind0(kind0Fields)]);
+
+      const spinner = ora('Signing event...').start();
+      const event = await createProfileEvent(signer, profile);
+
+      spinner.text = 'Registering on agentdex...';
+      const client = createClient(options);
+      const relays = await resolveWriteRelays(pubHex, options);
+
+      const payment = cliPaymentOptions(options, spinner, (p) => `  💰 Registration fee: ${p.amountSats?.toLocaleString()} sats`);
+      let result: Record<string, any> = {};
+      let paid: PendingPayment | undefined;
+      try {
+        ({ response: result, payment: paid } = await client.registerWithPayment(event, payment.flow));
+        (paid ? payment.pollSpinner : spinner).succeed('Registered!');
+      } catch (err) {
+        exitWithError(err, payment.pollSpinner.isSpinning ? payment.pollSpinner : spinner, 'Registration');
+      }
+
+      await finishRegistration(signer, event, result, kind0Fields, relays, options, paid);
+      process.exit(0);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== UPDATE ====================
+
+withPublishOptions(withSignerOptions(program.command('update')))
+  .description('Update your existing agent profile without dropping unchanged fields')
+  .option('--name <name>', 'Agent name')
+  .option('--description <desc>', 'Agent description')
+  .option('--capabilities <caps>', 'Replace all capabilities (comma-separated)')
+  .option('--add-capability <cap>', 'Add a capability (repeatable)', collect, [])
+  .option('--remove-capability <cap>', 'Remove a capability (repeatable)', collect, [])
+  .option('--framework <fw>', 'Framework (e.g., langchain, openclaw)')
+  .option('--model <model>', 'Model (e.g., claude-3.5-sonnet)')
+  .option('--owner-x <handle>', 'Owner X/Twitter handle (e.g., @username)')
+  .option('--owner-type <type>', 'Owner type: human, agent, org')
+  .option('--parent <npub-or-hex>', 'Parent/orchestrator agent pubkey (npub or hex)')
+  .option('--status <status>', `Agent status: ${AGENT_STATUSES.join(', ')}`)
+  .option('--messaging-policy <policy>', `Who may message this agent: ${MESSAGING_POLICIES.join(', ')}`)
+  .option('--messaging-min-trust <score>', 'Minimum trust score to message this agent')
+  .option('--messaging-fee <sats>', 'Fee in sats to message this agent')
+  .option('--add-portfolio <entry>', 'Add or replace a portfolio entry (format: "id,url,label,description") — repeatable', collect, [])
+  .option('--remove-portfolio <id>', 'Remove a portfolio entry by id (repeatable)', collect, [])
+  .option('--add-skill <skill>', 'Add a skill (repeatable)', collect, [])
+  .option('--remove-skill <skill>', 'Remove a skill (repeatable)', collect, [])
+  .option('--add-experience <exp>', 'Add an experience tag (repeatable)', collect, [])
+  .option('--remove-experience <exp>', 'Remove an experience tag (repeatable)', collect, [])
+  .option('--from <file>', 'Apply a JSON or YAML manifest (flags override it; manifest lists replace existing ones)')
+  .option('--dry-run', 'Show the diff without publishing')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const pubkey = await signer.getPublicKey();
+      const npub = nip19.npubEncode(pubkey);
+      const relays = await resolveWriteRelays(pubkey, options);
+
+      const manifest = options.from ? loadManifest(options.from) : undefined;
+      const updates = {
+        ...(manifest ? defined(manifestProfile(manifest)) : {}),
+        ...defined({
+          name: options.name,
+          description: options.description,
+          capabilities: options.capabilities?.split(',').map((s: string) => s.trim()).filter(Boolean),
+          addCapabilities: options.addCapability,
+          removeCapabilities: options.removeCapability,
+          framework: options.framework,
+          model: options.model,
+          ownerX: options.ownerX,
+          ownerType: options.ownerType,
+          parent: options.parent ? toHexPubkey(options.parent, '--parent') : undefined,
+          status: options.status,
+          messagingPolicy: options.messagingPolicy,
+          messagingMinTrust: options.messagingMinTrust !== undefined ? Number(options.messagingMinTrust) : undefined,
+          messagingFee: options.messagingFee !== undefined ? Number(options.messagingFee) : undefined,
+          addPortfolio: options.addPortfolio.map(parsePortfolioEntry),
+          removePortfolio: options.removePortfolio,
+          addSkills: options.addSkill,
+          removeSkills: options.removeSkill,
+          addExperience: options.addExperience,
+          removeExperience: options.removeExperience,
+        }),
+      };
+      const kind0Fields = manifest ? defined({ ...manifestKind0(manifest), name: options.name ?? manifest.name, about: options.description ?? manifest.description }) : undefined;
+      checkIssues([...validateProfileUpdate(updates), ...(kind0Fields ? validateKind0(kind0Fields) : [])]);
+
+      const spinner = ora('Fetching existing profile...').start();
+      const { event, diff } = await buildProfileUpdateEvent(signer, updates, relays);
+      spinner.stop();
+
+      const output: UpdateOutput = { npub, changed: diff.added.length > 0 || diff.removed.length > 0, dryRun: !!options.dryRun, eventId: null, relays: [], relayResults: [], added: diff.added, removed: diff.removed, kind0EventId: null };
+
+      // A manifest also carries kind 0 fields (avatar, lightning, website, ...)
+      const publishManifestKind0 = async () => {
+        if (!kind0Fields || options.dryRun) return;
+        output.kind0EventId = (await publishKind0(signer, kind0Fields, relays, options))?.eventId ?? null;
+      };
+      const showDiff = () => {
+        log('');
+        for (const tag of diff.removed) log(chalk.red(`  - ${tag.join(' | ')}`));
+        for (const tag of diff.added) log(chalk.green(`  + ${tag.join(' | ')}`));
+        log('');
+      };
+
+      if (!output.changed) {
+        await publishManifestKind0();
+        emit(output, () => log(chalk.gray('  No changes — profile is already up to date.')));
+        return;
+      }
+
+      if (options.dryRun) {
+        emit(output, showDiff);
+        return;
+      }
+
+      if (outputFormat === 'table') showDiff();
+      const report = await publishWithReport(event, relays, options);
+      output.relays = report.accepted;
+      output.relayResults = report.results;
+      output.eventId = event.id;
+
+      const updateSpinner = ora('Updating agentdex...').start();
+      const client = createClient(options);
+      const response = await client.register(event);
+      if (response?.status === 'awaiting_payment') {
+        exitWithError(new Error('Published to relays, but agentdex wants a registration fee before listing it. Run `agentdex register` to pay.'), updateSpinner);
+      }
+      updateSpinner.succeed('Profile updated!');
+      await publishManifestKind0();
+
+      emit(output, () => {
+        log(chalk.gray(`  npub: ${npub}`));
+        log(chalk.gray(`  Published to: ${output.relays.join(', ')}`));
+        log(chalk.gray(`  Event ID: ${event.id}`));
+      });
+    } catch (err) {
+      exitWithError(err, undefined, 'Update');
+    }
+  });
+
+// ==================== STATUS ====================
+
+function parseStatus(value: string): AgentStatus {
+  if (!(AGENT_STATUSES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown status "${value}". Use ${AGENT_STATUSES.join(', ')}.`);
+  }
+  return value as AgentStatus;
+}
+
+function statusOutput(npub: string, status: string, message: string | undefined, result: StatusResult): StatusOutput {
+  return {
+    npub,
+    status,
+    message: message ?? null,
+    eventId: result.event.id,
+    relays: result.report.accepted,
+    relayResults: result.report.results,
+    registered: result.registered,
+    at: new Date(result.event.created_at * 1000).toISOString(),
+  };
+}
+
+const status = program
+  .command('status')
+  .description('Set your agent\'s availability');
+
+withPublishOptions(withSignerOptions(status.command('set <status>')))
+  .description(`Republish your profile with a new status (${AGENT_STATUSES.join(', ')})`)
+  .option('--message <text>', 'Note shown next to the status (omit to clear it)')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (statusArg: string, options) => {
+    try {
+      const value = parseStatus(statusArg);
+      const signer = await resolveSigner(options);
+      const pubkey = await signer.getPublicKey();
+      const npub = nip19.npubEncode(pubkey);
+
+      const spinner = ora(`Setting status to ${value}...`).start();
+      const result = await setStatus(signer, value, {
+        message: options.message,
+        relays: await resolveWriteRelays(pubkey, options),
+        publish: publishOptions(options),
+        client: createClient(options),
+      });
+      if (!result.report.ok) {
+        spinner.fail('Status not published');
+        printPublishReport(result.report);
+        throw new PublishError(result.report);
+      }
+      spinner.succeed(`Status: ${value}${options.message ? ` — ${options.message}` : ''}`);
+      printPublishReport(result.report);
+
+      emit(statusOutput(npub, value, options.message, result), () => {
+        log(chalk.gray(`  Published to: ${result.report.accepted.join(', ')}`));
+        log(chalk.gray(`  Event ID: ${result.event.id}`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== HEARTBEAT ====================
+
+withPublishOptions(withSignerOptions(program.command('heartbeat')), 'Count a beat as failed unless at least this many relays accept it')
+  .description('Keep your status fresh until stopped, then publish it as offline')
+  .option('--interval <seconds>', 'Seconds between beats (default 300)', '300')
+  .option('--status <status>', 'Status to publish on each beat (default active)', 'active')
+  .option('--message <text>', 'Note shown next to the status')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const value = parseStatus(options.status);
+      const interval = Number(options.interval);
+      if (!Number.isFinite(interval) || interval < 10) throw new Error('--interval must be at least 10 seconds');
+
+      const signer = await resolveSigner(options);
+      const pubkey = await signer.getPublicKey();
+      const npub = nip19.npubEncode(pubkey);
+
+      // Structured formats get one JSON line per beat
+      const print = (result: StatusResult, current: string, message?: string) => {
+        const output = statusOutput(npub, current, message, result);
+        if (outputFormat === 'table') {
+          const line = `  ${output.at}  ${current}  ${result.report.accepted.length}/${result.report.results.length} relays${result.registered ? ', directory updated' : ''}`;
+          log(result.report.ok ? chalk.gray(line) : chalk.yellow(`${line} — below the quorum of ${result.report.quorum}`));
+        } else {
+          console.log(JSON.stringify(output));
+        }
+      };
+
+      const heartbeat = new Heartbeat(signer, {
+        status: value,
+        message: options.message,
+        intervalMs: interval * 1000,
+        relays: await resolveWriteRelays(pubkey, options),
+        publish: publishOptions(options),
+        client: createClient(options),
+        onBeat: (result) => print(result, value, options.message),
+        onError: (err) => console.error(chalk.yellow(`  ⚠ Beat failed: ${(err as Error).message}`)),
+      });
+
+      // Installed before the first beat, so Ctrl-C during it still publishes offline
+      let stopping = false;
+      const shutdown = async () => {
+        if (stopping) return;
+        stopping = true;
+        log(chalk.gray('  Stopping — publishing offline status...'));
+        try {
+          print(await heartbeat.stop(), 'offline');
+          await closeSigners();
+          process.exit(0);
+        } catch (err) {
+          exitWithError(err);
+        }
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+      log(chalk.hex('#D4A574')(`  Heartbeat every ${interval}s as ${value}. Ctrl-C to stop.`));
+      await heartbeat.start();
+      // Stay pending until shutdown exits: returning would close a bunker signer under the beats
+      await new Promise<never>(() => {});
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== CLAIM ====================
+
+withPublishOptions(withSignerOptions(program.command('claim [name]')))
+  .description('Claim a NIP-05 name (name@agentdex.id)')
+  .option('--nwc <uri>', 'Nostr Wallet Connect URI for auto-pay')
+  .option('--max-sats <sats>', 'Refuse to auto-pay invoices above this amount')
+  .option('--yes', 'Auto-pay without asking for confirmation')
+  .option('--resume [paymentHash]', 'Resume a paid-but-unfinished claim')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--lightning <addr>', 'Lightning address (lud16) to set in kind 0 profile')
+  .option('--skip-kind0', 'Skip publishing kind 0 profile to relays')
+  .option('--relay <url>', 'Additional relay', (val: string, acc: string[]) => [...acc, val], [])
+  .action(async (nameArg: string | undefined, options) => {
+    try {
+      const nameProblem = nameArg && !options.resume ? nip05NameProblem(nameArg) : null;
+      checkIssues([
+        ...(nameProblem ? [{ field: 'name', message: nameProblem, severity: 'error' as const }] : []),
+        ...validateKind0({ lud16: options.lightning }),
+      ]);
+      const signer = await resolveSigner(options);
+      const client = createClient(options);
+
+      let name: string;
+      let claim: ClaimResult = {};
+      let paidWith: PendingPayment | undefined;
+      if (options.resume) {
+        const pending = await findPendingPayment('claim', await signer.getPublicKey(), options.resume, nameArg);
+        name = pending.name!;
+        paidWith = pending;
+        const spinner = ora(`Checking payment for ${name}@agentdex.id...`).start();
+        try {
+          await createClient({ apiKey: options.apiKey, baseUrl: pending.baseUrl }).resumePayment(pending, { store: paymentStore() });
+        } catch (err) {
+          exitWithError(err, spinner, 'Claim');
+        }
+        spinner.succeed(`${chalk.hex('#D4A574')(`${name}@agentdex.id`)} is now active!`);
+      } else {
+        if (!nameArg) throw new Error('Provide a name to claim, or --resume to finish a paid claim.');
+        name = nameArg;
+        const spinner = ora(`Claiming ${name}@agentdex.id...`).start();
+
+        // Sign a kind 31339 event for claim authentication
+        const event = await createProfileEvent(signer, {
+          name,
+          status: 'active',
+        });
+
+        const payment = cliPaymentOptions(options, spinner, (p) => `  💰 Claim ${name}@agentdex.id for ${p.amountSats?.toLocaleString()} sats`);
+        try {
+          const { response, payment: paid } = await client.claimWithPayment(name, event, payment.flow);
+          claim = response;
+          paidWith = paid;
+          (paid ? payment.pollSpinner : spinner).succeed(`${chalk.hex('#D4A574')(`${claim.nip05 || `${name}@agentdex.id`}`)} is now active!`);
+        } catch (err) {
+          exitWithError(err, payment.pollSpinner.isSpinning ? payment.pollSpinner : spinner, 'Claim');
+        }
+      }
+
+      // Auto-publish kind 0 to relays so Nostr clients verify the NIP-05
+      let kind0: PublishReport | null = null;
+      if (!options.skipKind0) {
+        kind0 = await publishKind0(signer, {
+          name: claim.agent?.name || name,
+          about: claim.agent?.description || undefined,
+          picture: claim.agent?.avatarUrl || undefined,
+          nip05: `${name}@agentdex.id`,
+          lud16: options.lightning || undefined,
+        }, await resolveWriteRelays(await signer.getPublicKey(), options), options);
+        if (kind0?.ok) {
+          log(chalk.gray('  NIP-05 will appear on njump/Damus/Primal once relays propagate (~30s)'));
+        } else {
+          log(chalk.gray(`  Publish manually — kind 0 content: {"name":"...","nip05":"${name}@agentdex.id"}`));
+        }
+      } else {
+        log('');
+        log(chalk.yellow('  ⚠ Skipped kind 0 publish. For NIP-05 to show on Nostr clients:'));
+        log(chalk.gray(`  Publish kind 0 with: "nip05": "${name}@agentdex.id"`));
+      }
+
+      const output: ClaimOutput = {
+        name,
+        nip05: claim.nip05 || `${name}@agentdex.id`,
+        npub: nip19.npubEncode(await signer.getPublicKey()),
+        paid: !!paidWith,
+        paymentHash: paidWith?.paymentHash ?? null,
+        amountSats: paidWith?.amountSats ?? null,
+        kind0EventId: kind0?.eventId ?? null,
+        kind0Relays: kind0?.accepted ?? [],
+        relayResults: kind0?.results ?? [],
+      };
+      emit(output, () => {});
+      if (kind0 && !kind0.ok) throw new PublishError(kind0);
+    } catch (err) {
+      exitWithError(err, undefined, 'Claim');
+    }
+  });
+
+// ==================== PAYMENTS ====================
+
+const payments = program
+  .command('payments')
+  .description('Manage pending Lightning invoices for registrations and claims');
+
+payments
+  .command('list')
+  .description('List saved invoices that have not completed yet')
+  .option('--check', 'Query agentdex for the current status of each invoice')
+  .action(async (options) => {
+    try {
+      const pending = await paymentStore().list();
+      const client = options.check ? createClient() : null;
+      const rows = await Promise.all(pending.map(async (p) => {
+        if (!client) return { ...p, status: undefined as string | undefined };
+        try {
+          const status = p.kind === 'claim' ? await client.claimStatus(p.paymentHash) : await client.registerStatus(p.paymentHash);
+          return { ...p, status: status.status || (status.paid ? 'paid' : 'pending') };
+        } catch (err) {
+          return { ...p, status: `error: ${(err as Error).message}` };
+        }
+      }));
+
+      const data = rows.map(({ event, ...rest }) => ({ ...rest, status: rest.status ?? null }));
+      emit(data, () => {
+        if (rows.length === 0) log(chalk.gray('  No pending payments.'));
+        for (const p of rows) {
+          const what = p.kind === 'claim' ? `claim ${p.name}@agentdex.id` : 'registration';
+          log(`${chalk.white(p.paymentHash)} ${chalk.hex('#D4A574')(what)}`);
+          log(chalk.gray(`  ${p.amountSats?.toLocaleString() ?? '?'} sats · ${nip19.npubEncode(p.pubkey).substring(0, 20)}... · ${new Date(p.createdAt * 1000).toISOString()}`));
+          if (p.expiresAt) log(chalk.gray(`  Expires: ${p.expiresAt}`));
+          if (p.status) log(chalk.gray(`  Status: ${p.status}`));
+          log(chalk.gray(`  Resume: agentdex ${p.kind} --resume ${p.paymentHash}`));
+          log('');
+        }
+      }, { columns: ['paymentHash', 'kind', 'name', 'amountSats', 'pubkey', 'createdAt', 'expiresAt', 'status', 'baseUrl', 'invoice'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+payments
+  .command('log')
+  .description('Show the audit log of payments made through the CLI, and budget usage')
+  .option('--all', 'Include every identity, not just the active one')
+  .action((options) => {
+    try {
+      const ledger = spendingLedger();
+      const identityName = activeIdentityName(loadConfig(), program.opts().profile) || 'default';
+      const entries = ledger.entries().filter((e) => options.all || e.identity === identityName);
+      const { budgetSats, budgetPeriod = 'total', maxSats } = currentIdentity();
+      const spent = ledger.spent(identityName, budgetPeriod);
+
+      const data = { identity: identityName, budget: { budgetSats: budgetSats ?? null, budgetPeriod, maxSats: maxSats ?? null, spent }, entries };
+      emit(data, () => {
+        if (budgetSats !== undefined) {
+          log(chalk.hex('#D4A574')(`  Budget: ${spent.toLocaleString()} / ${budgetSats.toLocaleString()} sats${budgetPeriod === 'total' ? '' : ` per ${budgetPeriod}`}`));
+        }
+        if (maxSats !== undefined) log(chalk.gray(`  Max per invoice: ${maxSats.toLocaleString()} sats`));
+        if (entries.length === 0) log(chalk.gray('  No payments recorded.'));
+        for (const e of entries) {
+          const status = e.status === 'paid' ? chalk.green(e.status) : e.status === 'failed' ? chalk.red(e.status) : chalk.yellow(e.status);
+          log(`${chalk.gray(e.at)} ${status} ${chalk.white(`${e.amountSats.toLocaleString()} sats`)} ${chalk.gray(e.purpose)}${options.all ? chalk.gray(` [${e.identity}]`) : ''}`);
+          if (e.reason) log(chalk.gray(`  ${e.reason}`));
+        }
+      }, { rows: entries, columns: ['at', 'identity', 'status', 'amountSats', 'purpose', 'paymentHash', 'reason', 'preimage', 'invoice'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+payments
+  .command('forget <paymentHash>')
+  .description('Remove a saved invoice')
+  .action(async (paymentHash: string) => {
+    try {
+      const store = paymentStore();
+      if (!(await store.list()).some((p) => p.paymentHash === paymentHash)) {
+        throw new Error(`No saved invoice with hash ${paymentHash}`);
+      }
+      await store.remove(paymentHash);
+      emit({ paymentHash, removed: true }, () => log(chalk.gray(`  Forgot ${paymentHash}`)));
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== VERIFY ====================
+
+/**
+ * Targets listed one per line in a file, or on stdin for "-". Blank lines and # comments are skipped.
+ */
+async function readTargets(source: string): Promise<string[]> {
+  let text: string;
+  if (source === '-') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    text = Buffer.concat(chunks).toString('utf-8');
+  } else {
+    text = readFileSync(source, 'utf-8');
+  }
+  return text.split(/\r?\n/).map((line) => line.replace(/#.*/, '').trim()).filter(Boolean);
+}
+
+function verifyOutput(entry: VerifyManyResult, options: { minTrust?: number; requireRegistered?: boolean }): VerifyOutput {
+  const result = entry.result;
+  return {
+    target: entry.target,
+    npub: entry.pubkey ? nip19.npubEncode(entry.pubkey) : null,
+    registered: result?.registered ?? null,
+    name: result?.name ?? null,
+    trustScore: result?.trustScore ?? null,
+    capabilities: result?.capabilities ?? [],
+    passed: !!result && (!options.requireRegistered || result.registered) && result.trustScore >= (options.minTrust ?? 0),
+    error: entry.error,
+  };
+}
+
+program
+  .command('verify [targets...]')
+  .description('Check if agents (npub, hex or name@domain) are registered on agentdex')
+  .option('--from-file <path>', 'Read targets from a file, one per line ("-" for stdin)')
+  .option('--concurrency <n>', 'Targets verified in parallel', '5')
+  .option('--min-trust <score>', 'Exit non-zero if any target\'s trust score is below this')
+  .option('--require-registered', 'Exit non-zero if any target isn\'t registered')
+  .action(async (targetArgs: string[], options) => {
+    try {
+      const concurrency = parseInt(options.concurrency);
+      if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error('--concurrency must be a whole number, 1 or more');
+      const minTrust = options.minTrust !== undefined ? Number(options.minTrust) : undefined;
+      if (minTrust !== undefined && Number.isNaN(minTrust)) throw new Error('--min-trust must be a number');
+      const thresholds = { minTrust, requireRegistered: !!options.requireRegistered };
+
+      const fromStdin = !options.fromFile && targetArgs.length === 0 && !process.stdin.isTTY;
+      const targets = [...targetArgs];
+      if (options.fromFile || fromStdin) targets.push(...await readTargets(options.fromFile || '-'));
+      if (targets.length === 0) throw new Error('Pass one or more targets, --from-file, or targets on stdin.');
+
+      const client = createClient();
+      // A single target gets the detailed view; thresholds need the pass/fail rows below
+      const checked = minTrust !== undefined || thresholds.requireRegistered;
+      if (targets.length === 1 && !options.fromFile && !fromStdin && !checked) {
+        const spinner = ora('Verifying...').start();
+        const result = await client.verify(targets[0]);
+
+        emit(result, () => {
+          if (result.registered) {
+            spinner.succeed('Registered on agentdex');
+            log(chalk.gray(`  Name: ${result.name}`));
+            log(chalk.gray(`  Trust Score: ${result.trustScore}`));
+            log(chalk.gray(`  Capabilities: ${result.capabilities.join(', ') || 'none'}`));
+            log(chalk.gray(`  Nostr: ${result.hasNostr ? '✅' : '❌'}  Agentdex: ${result.hasAgentdex ? '✅' : '❌'}`));
+          } else {
+            spinner.warn('Not registered on agentdex');
+          }
+        });
+        spinner.stop();
+        return;
+      }
+
+      let done = 0;
+      const spinner = ora(`Verifying... 0/${targets.length}`).start();
+      const entries = await client.verifyMany(targets, {
+        concurrency,
+        onResult: () => {
+          spinner.text = `Verifying... ${++done}/${targets.length}`;
+        },
+      });
+      spinner.stop();
+
+      const output = entries.map((entry) => verifyOutput(entry, thresholds));
+      const errors = output.filter((o) => o.error).length;
+      const failed = output.filter((o) => !o.passed).length - errors;
+      emit(output, () => {
+        for (const o of output) {
+          if (o.error) {
+            log(chalk.red(`  ✗ ${o.target}: ${o.error}`));
+            continue;
+          }
+          const trust = o.trustScore !== null ? chalk.hex('#D4A574')(`[${o.trustScore}]`) : '';
+          const label = `${o.registered ? o.name || o.target : `${o.target} (not registered)`} ${trust} ${chalk.gray(o.npub!.substring(0, 20) + '...')}`;
+          const why = thresholds.requireRegistered && !o.registered ? 'not registered' : `trust score below ${minTrust}`;
+          log(o.passed ? `  ${chalk.green('✔')} ${label}` : `${chalk.yellow(`  ✗ ${label}`)} ${chalk.gray(`— ${why}`)}`);
+        }
+        log(chalk.gray(`\n  ${output.length} checked, ${output.length - failed - errors} passed, ${failed} below threshold, ${errors} errors`));
+      }, { columns: ['target', 'npub', 'registered', 'name', 'trustScore', 'capabilities', 'passed', 'error'] });
+      if (failed + errors > 0) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== RESOLVE ====================
+
+/** `resolve` — one row per mismatch for ndjson/csv */
+interface ResolveOutput {
+  identifier: string;
+  pubkey: string | null;
+  npub: string | null;
+  relays: string[];
+  kind0Nip05: string | null;
+  /** null when the directory couldn't be reached */
+  registered: boolean | null;
+  trustScore: number | null;
+  consistent: boolean;
+  mismatches: { source: 'kind0' | 'directory'; message: string }[];
+}
+
+program
+  .command('resolve <identifier>')
+  .description('Resolve a NIP-05 identifier (name@domain) and cross-check it against kind 0 and the directory')
+  .option('--relay <url>', 'Additional relay to read kind 0 from (repeatable)', collect, [])
+  .action(async (identifier: string, options) => {
+    try {
+      const spinner = ora(`Resolving ${identifier}...`).start();
+      const resolution = await resolveNip05(identifier, { client: createClient(), relays: resolveRelays(options) });
+      spinner.stop();
+
+      const output: ResolveOutput = {
+        identifier: resolution.identifier,
+        pubkey: resolution.pubkey,
+        npub: resolution.npub,
+        relays: resolution.relays,
+        kind0Nip05: resolution.kind0Nip05,
+        registered: resolution.directory?.registered ?? null,
+        trustScore: resolution.directory?.trustScore ?? null,
+        consistent: !!resolution.pubkey && resolution.mismatches.length === 0,
+        mismatches: resolution.mismatches,
+      };
+      emit(output, () => {
+        if (!output.npub) {
+          log(chalk.yellow(`  ${identifier} is not listed in its domain's nostr.json.`));
+          return;
+        }
+        log(chalk.hex('#D4A574')(`  ${identifier}`));
+        log(chalk.gray(`  ${output.npub}`));
+        log(chalk.gray(`  Relays: ${output.relays.join(', ') || 'none'}`));
+        log(chalk.gray(`  kind 0 NIP-05: ${output.kind0Nip05 ?? 'none'}`));
+        log(chalk.gray(`  Directory: ${output.registered === null ? 'unreachable' : output.registered ? `registered (trust ${output.trustScore})` : 'not registered'}`));
+        for (const m of output.mismatches) log(chalk.yellow(`  ⚠ ${m.source}: ${m.message}`));
+        if (output.consistent) log(chalk.green('  ✅ nostr.json, kind 0 and the directory agree.'));
+      }, { rows: output.mismatches.map((m) => ({ identifier, npub: output.npub, ...m })), columns: ['identifier', 'npub', 'source', 'message'] });
+      if (!output.consistent) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== SHOW ====================
+
+program
+  .command('show <target>')
+  .description("Show an agent's profile (npub, hex or name@domain) as published on Nostr relays")
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (target: string, options) => {
+    try {
+      const pubkey = await resolveTarget(target);
+      const spinner = ora('Looking up relay list...').start();
+      const relays = await relaysForAuthor(pubkey, resolveRelays(options));
+      spinner.text = 'Fetching profile from relays...';
+      const profile = await fetchAgentProfile(pubkey, relays);
+      spinner.stop();
+
+      if (!profile) {
+        emit(null, () => log(chalk.yellow('  No profile found on relays.')), { rows: [] });
+        process.exit(1);
+      }
+
+      const { profileEvent, metadataEvent, ...rest } = profile;
+      const data = { ...rest, profileEventId: profileEvent?.id ?? null, metadataEventId: metadataEvent?.id ?? null };
+      if (outputFormat !== 'table') {
+        emit(data, () => {});
+        return;
+      }
+
+      const line = (label: string, value: unknown) => {
+        if (value !== undefined && value !== '') log(chalk.gray(`  ${label}: ${value}`));
+      };
+      log(chalk.hex('#D4A574')(`  ${profile.name || '(unnamed)'}`));
+      log(chalk.gray(`  ${profile.npub}`));
+      line('Description', profile.description || profile.about);
+      line('Status', profile.status && (profile.statusMessage ? `${profile.status} — ${profile.statusMessage}` : profile.status));
+      line('NIP-05', profile.nip05);
+      line('Lightning', profile.lud16);
+      line('Website', profile.website);
+      line('Framework', profile.framework);
+      line('Model', profile.model);
+      line('Owner type', profile.ownerType);
+      line('Owner X', profile.ownerX);
+      line('Owner', profile.ownerPubkey && nip19.npubEncode(profile.ownerPubkey));
+      line('Parent', profile.parent);
+      line('Capabilities', profile.capabilities?.join(', '));
+      line('Skills', profile.skills?.join(', '));
+      line('Experience', profile.experience?.join(', '));
+      line('Messaging', profile.messagingPolicy);
+      line('Messaging min trust', profile.messagingMinTrust);
+      line('Messaging fee', profile.messagingFee !== undefined ? `${profile.messagingFee} sats` : undefined);
+      if (profile.bot) line('Bot', 'yes');
+      for (const item of profile.portfolio || []) {
+        log(chalk.gray(`  Portfolio: ${item.name || item.id} — ${item.url}`));
+      }
+      if (!profile.profileEvent) {
+        log(chalk.yellow('  ⚠ No kind 31339 agentdex profile found (kind 0 only).'));
+      }
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== LINT ====================
+
+/** `lint` — one row per issue for ndjson/csv */
+interface LintOutput {
+  target: string;
+  source: 'manifest' | 'relays';
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+const DEFAULT_MANIFESTS = ['agent.json', 'agent.yaml', 'agent.yml'];
+
+/**
+ * Issues in a profile read back from relays: the kind 31339 tags and the kind 0 metadata
+ */
+function lintPublishedProfile(profile: FetchedAgentProfile): ValidationIssue[] {
+  const { profileEvent, metadataEvent, pubkey, npub, about, picture, website, nip05, lud16, bot, ownerPubkey, ...fields } = profile;
+  const issues = [
+    ...validateProfile(profileEvent ? fields : {}),
+    ...validateKind0({ picture, website, nip05, lud16, ownerPubkeyHex: ownerPubkey }),
+  ];
+  if (!profileEvent) issues.push({ field: 'kind 31339', message: 'no agentdex profile found on relays', severity: 'warning' });
+  if (!metadataEvent) issues.push({ field: 'kind 0', message: 'no profile metadata found on relays', severity: 'warning' });
+  return issues;
+}
+
+program
+  .command('lint [target]')
+  .description('Check a manifest file or a published profile (npub, hex or name@domain) for invalid fields')
+  .option('--strict', 'Fail on warnings too')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (targetArg: string | undefined, options) => {
+    try {
+      const target = targetArg || DEFAULT_MANIFESTS.find((f) => existsSync(f));
+      if (!target) throw new Error(`No manifest found (looked for ${DEFAULT_MANIFESTS.join(', ')}). Pass a file, an npub or a name@domain.`);
+
+      let source: LintOutput['source'];
+      let issues: ValidationIssue[];
+      if (existsSync(target)) {
+        source = 'manifest';
+        try {
+          issues = lintManifest(loadManifest(target));
+        } catch (err) {
+          issues = [{ field: target, message: (err as Error).message.replace(`${target}: `, ''), severity: 'error' }];
+        }
+      } else {
+        source = 'relays';
+        const pubkey = await resolveTarget(target);
+        const spinner = ora('Fetching profile from relays...').start();
+        const profile = await fetchAgentProfile(pubkey, await relaysForAuthor(pubkey, resolveRelays(options)));
+        spinner.stop();
+        if (!profile) throw new Error('No profile found on relays.');
+        issues = lintPublishedProfile(profile);
+      }
+
+      const errors = issues.filter((i) => i.severity === 'error').length;
+      const warnings = issues.length - errors;
+      const output: LintOutput = { target, source, valid: errors === 0 && (!options.strict || warnings === 0), errors, warnings, issues };
+      emit(output, () => {
+        for (const issue of issues) {
+          const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+          log(color(`  ${issue.severity === 'error' ? '✗' : '⚠'} ${issue.field} ${issue.message}`));
+        }
+        if (issues.length === 0) {
+          log(chalk.green(`✅ ${target}: no problems found`));
+        } else {
+          log(chalk.gray(`  ${target}: ${errors} error(s), ${warnings} warning(s)`));
+        }
+      }, { rows: issues.map((issue) => ({ target, ...issue })), columns: ['target', 'severity', 'field', 'message'] });
+      if (!output.valid) process.exit(EXIT_CODES.invalid);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== DOCTOR ====================
+
+/** `doctor` — one row per finding for ndjson/csv */
+interface DoctorOutput {
+  npub: string;
+  healthy: boolean;
+  errors: number;
+  warnings: number;
+  findings: DoctorFinding[];
+  relays: { relay: string; profileEventId: string | null; metadataEventId: string | null }[];
+  nip05: string | null;
+  registered: boolean | null;
+  fixes: { fix: DoctorFix; ok: boolean; message: string; relayResults: RelayPublishResult[] }[];
+}
+
+withPublishOptions(withSignerOptions(program.command('doctor [target]')))
+  .description('Check that relays, NIP-05 and the directory agree about an agent, and repair what they don\'t')
+  .option('--fix', 'Republish missing or stale events and re-sync the directory')
+  .option('--name <name>', 'Your agentdex.id name, if kind 0 doesn\'t carry it')
+  .option('--lightning <addr>', 'Lightning address (lud16) to set while fixing kind 0')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (npubArg: string | undefined, options) => {
+    try {
+      checkIssues(validateKind0({ lud16: options.lightning }));
+      // Anyone can rebroadcast signed events, but re-signing kind 0 needs the agent's own key
+      const signer = !npubArg || options.fix ? await resolveSigner(options) : undefined;
+      const client = createClient(options);
+      const pubkey = npubArg ? await resolveTarget(npubArg, client) : await signer!.getPublicKey();
+      const ownSigner = signer && await signer.getPublicKey() === pubkey ? signer : undefined;
+
+      const spinner = ora('Checking relays, NIP-05 and the directory...').start();
+      const relays = await resolveWriteRelays(pubkey, options);
+      const report = await diagnoseAgent(pubkey, { relays, client, name: options.name });
+      spinner.stop();
+
+      let fixes: DoctorFixResult[] = [];
+      if (options.fix && (report.findings.some((f) => f.fix) || options.lightning)) {
+        const fixSpinner = ora('Fixing...').start();
+        fixes = await fixAgent(report, { client, signer: ownSigner, lightning: options.lightning, publish: publishOptions(options) });
+        fixSpinner.stop();
+      }
+
+      const failedFixes = new Set(fixes.filter((f) => !f.ok).map((f) => f.fix));
+      const fixed = (f: DoctorFinding) => !!options.fix && !!f.fix && !failedFixes.has(f.fix);
+      const errors = report.findings.filter((f) => f.severity === 'error').length;
+      const output: DoctorOutput = {
+        npub: report.npub,
+        healthy: report.findings.every((f) => f.severity !== 'error' || fixed(f)) && failedFixes.size === 0,
+        errors,
+        warnings: report.findings.length - errors,
+        findings: report.findings,
+        relays: report.relays.map((r) => ({ relay: r.relay, profileEventId: r.profileEvent?.id ?? null, metadataEventId: r.metadataEvent?.id ?? null })),
+        nip05: report.nip05?.identifier ?? null,
+        registered: report.directory?.registered ?? null,
+        fixes: fixes.map(({ fix, ok, message, report: published }) => ({ fix, ok, message, relayResults: published?.results ?? [] })),
+      };
+
+      emit(output, () => {
+        const mark = (event: { id: string } | null, latest: { id: string } | null) =>
+          !event ? chalk.red('missing') : latest && event.id !== latest.id ? chalk.yellow('stale') : chalk.green('ok');
+        log('');
+        for (const r of report.relays) {
+          log(`  ${r.relay.padEnd(32)} kind 31339 ${mark(r.profileEvent, report.profileEvent)}  kind 0 ${mark(r.metadataEvent, report.metadataEvent)}`);
+        }
+        log(chalk.gray(`  NIP-05: ${output.nip05 ?? 'none'}  Directory: ${output.registered === null ? 'unreachable' : output.registered ? 'registered' : 'not registered'}`));
+        log('');
+        for (const f of report.findings) {
+          const text = `${f.severity === 'error' ? '✗' : '⚠'} ${f.relay ? `${f.relay}: ` : ''}${f.message}`;
+          log((f.severity === 'error' ? chalk.red : chalk.yellow)(`  ${text}`) + (f.fix && !options.fix ? chalk.gray(' (fixable)') : ''));
+        }
+        for (const f of fixes) log((f.ok ? chalk.green : chalk.red)(`  ${f.ok ? '✔' : '✗'} ${f.message}`));
+        if (report.findings.length === 0) log(chalk.green('✅ Everything is consistent.'));
+        else if (!options.fix && report.findings.some((f) => f.fix)) log(chalk.gray(`\n  Run ${chalk.white('agentdex doctor --fix')} to repair the fixable problems.`));
+        log('');
+      }, { rows: report.findings.map((f) => ({ npub: report.npub, ...f })), columns: ['npub', 'severity', 'code', 'relay', 'message', 'fix'] });
+      if (!output.healthy) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== MESSAGE ====================
+
+withPublishOptions(withSignerOptions(program.command('message <recipient> <text>')), 'Fail unless at least this many relays accept the message')
+  .description('Send an encrypted direct message (NIP-17) to an agent, honouring its messaging policy')
+  .option('--nwc <uri>', 'Pay the recipient\'s messaging fee via Nostr Wallet Connect')
+  .option('--max-sats <n>', 'Refuse to pay a fee above this many sats')
+  .option('--yes', 'Pay the fee without asking for confirmation')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (recipientArg: string, text: string, options) => {
+    try {
+      if (!text.trim()) throw new Error('Message is empty');
+      const client = createClient(options);
+      const signer = await resolveSigner(options);
+      const recipient = await resolveTarget(recipientArg, client);
+      const npub = nip19.npubEncode(recipient);
+      const nwcUri = resolveNwc(options);
+
+      const spinner = ora('Checking the recipient\'s messaging policy...').start();
+      let result: SendMessageResult;
+      try {
+        result = await sendDirectMessage(signer, recipient, text, {
+          relays: resolveRelays(options),
+          client,
+          publish: publishOptions(options),
+          payer: nwcUri
+            ? async (invoice, amountSats) => {
+                spinner.stop();
+                const preimage = await guardedPay(nwcUri, { invoice, amountSats, paymentHash: decodeInvoice(invoice).paymentHash! }, `message fee to ${npub}`, options);
+                spinner.start('Sending...');
+                return { preimage };
+              }
+            : undefined,
+        });
+      } catch (err) {
+        if (err instanceof MessagingPolicyError && err.reason === 'fee-required' && !nwcUri) {
+          exitWithError(new MessagingPolicyError(err.reason, `${recipientArg} charges ${err.rules.feeSats} sats per message. Pass --nwc or set NWC_URL to pay it.`, err.rules), spinner);
+        }
+        exitWithError(err, spinner);
+      }
+      if (!result.report.ok) {
+        spinner.fail('Message not delivered');
+        if (result.fee) log(chalk.yellow(`  The ${result.fee.amountSats} sat fee was paid. Preimage (proof of payment): ${result.fee.preimage}`));
+        printPublishReport(result.report);
+        throw new PublishError(result.report);
+      }
+      spinner.succeed(`Message sent to ${recipientArg}`);
+      printPublishReport(result.report);
+
+      const output: MessageOutput = {
+        to: npub,
+        messageId: result.rumor.id,
+        eventId: result.wrap.id,
+        feeSats: result.fee?.amountSats ?? 0,
+        paymentHash: result.fee ? decodeInvoice(result.fee.invoice).paymentHash ?? null : null,
+        trustScore: result.trustScore,
+        relays: result.report.accepted,
+        relayResults: result.report.results,
+      };
+      emit(output, () => {
+        if (result.fee) log(chalk.gray(`  Fee paid: ${result.fee.amountSats} sats`));
+        log(chalk.gray(`  Delivered to: ${result.report.accepted.join(', ')}`));
+        log(chalk.gray(`  Message ID: ${result.rumor.id}`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== INBOX ====================
+
+/**
+ * Unix time (seconds) from --since: an ISO date or a number of hours ago ("24h")
+ */
+function parseSince(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const hours = /^(\d+)h$/.exec(value);
+  const ms = hours ? Date.now() - Number(hours[1]) * 3600_000 : Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid --since "${value}". Use an ISO date or hours like 24h.`);
+  return Math.floor(ms / 1000);
+}
+
+function inboxOutput(message: InboxMessage): InboxOutput {
+  return {
+    id: message.id,
+    from: message.npub,
+    name: message.sender?.name ?? null,
+    trustScore: message.sender?.trustScore ?? null,
+    at: new Date(message.createdAt * 1000).toISOString(),
+    content: message.content,
+    allowed: message.allowed,
+    reason: message.reason ?? null,
+    feeSats: message.fee?.amountSats ?? null,
+    feeVerified: message.feeVerified,
+  };
+}
+
+withSignerOptions(program.command('inbox'))
+  .description('Read your encrypted direct messages, filtered by your messaging policy')
+  .option('--all', 'Also show messages your policy filters out, with the reason')
+  .option('--since <date>', 'Only messages since this date (ISO 8601) or this many hours ago (e.g. 24h)')
+  .option('--limit <n>', 'Max messages', '50')
+  .option('--nwc <uri>', 'Nostr Wallet Connect URI of your wallet, to confirm messaging fees were received')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 1) throw new Error('--limit must be a positive whole number');
+      const since = parseSince(options.since);
+
+      const signer = await resolveSigner(options);
+      const spinner = ora('Fetching messages...').start();
+      const inbox = await fetchInbox(signer, { relays: resolveRelays(options), client: createClient(options), since, limit, nwc: resolveNwc(options) });
+      spinner.stop();
+
+      const shown = inbox.messages.filter((m) => options.all || m.allowed);
+      const hidden = inbox.messages.length - shown.length;
+      const rows = shown.map(inboxOutput);
+      emit(rows, () => {
+        const { policy, minTrust, feeSats } = inbox.rules;
+        log(chalk.gray(`  Policy: ${policy}${minTrust ? `, min trust ${minTrust}` : ''}${feeSats ? `, fee ${feeSats} sats` : ''}`));
+        log('');
+        if (shown.length === 0) log(chalk.gray('  No messages.'));
+        for (const m of shown) {
+          const from = m.sender?.name ? `${m.sender.name} (${m.npub.slice(0, 16)}...)` : m.npub;
+          const trust = m.sender ? ` · trust ${m.sender.trustScore}` : '';
+          log((m.allowed ? chalk.white : chalk.gray)(`  ${new Date(m.createdAt * 1000).toISOString()}  ${from}${trust}`));
+          if (!m.allowed) log(chalk.yellow(`    ⚠ Filtered: ${m.reason}`));
+          log(`    ${m.content.split('\n').join('\n    ')}`);
+          log('');
+        }
+        if (hidden > 0) log(chalk.gray(`  ${hidden} message${hidden === 1 ? '' : 's'} filtered by your policy. Show with --all.`));
+      }, { columns: ['id', 'from', 'name', 'trustScore', 'at', 'content', 'allowed', 'reason', 'feeSats', 'feeVerified'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== ZAP ====================
+
+withSignerOptions(program.command('zap <recipient> <sats>'))
+  .description('Zap an agent (NIP-57): pay its lightning address and wait for the receipt')
+  .option('--comment <text>', 'Comment sent with the zap')
+  .option('--wait <seconds>', 'How long to wait for the zap receipt', '60')
+  .option('--nwc <uri>', 'Pay via Nostr Wallet Connect instead of showing the invoice')
+  .option('--max-sats <n>', 'Refuse to auto-pay more than this many sats')
+  .option('--yes', 'Pay without asking for confirmation')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (recipientArg: string, satsArg: string, options) => {
+    try {
+      const amount = Number(satsArg);
+      if (!Number.isInteger(amount) || amount < 1) throw new Error('<sats> must be a whole number, 1 or more');
+      const wait = Number(options.wait);
+      if (!Number.isFinite(wait) || wait < 0) throw new Error('--wait must be a number of seconds');
+
+      const signer = await resolveSigner(options);
+      const recipient = await resolveTarget(recipientArg, createClient());
+      const npub = nip19.npubEncode(recipient);
+      const nwcUri = resolveNwc(options);
+
+      const spinner = ora('Requesting a zap invoice...').start();
+      let request: ZapInvoice;
+      try {
+        request = await requestZapInvoice(signer, recipient, amount, { relays: resolveRelays(options), comment: options.comment });
+      } catch (err) {
+        exitWithError(err, spinner);
+      }
+      spinner.stop();
+      const paymentHash = decodeInvoice(request.invoice).paymentHash!;
+
+      let paid = false;
+      if (nwcUri) {
+        await guardedPay(nwcUri, { invoice: request.invoice, amountSats: amount, paymentHash }, `zap to ${npub}`, options);
+        paid = true;
+      } else {
+        log('');
+        log(chalk.hex('#D4A574')(`  ⚡ Pay ${amount.toLocaleString()} sats to ${request.lud16} to zap ${recipientArg}:`));
+        log('');
+        showInvoice(request.invoice);
+      }
+
+      const receiptSpinner = ora('Waiting for the zap receipt...').start();
+      const receipt = await waitForZapReceipt(request, { timeoutMs: wait * 1000 });
+      if (receipt) {
+        receiptSpinner.succeed(`Zapped ${recipientArg} ${amount.toLocaleString()} sats`);
+      } else if (paid) {
+        receiptSpinner.warn('Paid, but no zap receipt was published yet — the recipient\'s wallet may be slow');
+      } else {
+        receiptSpinner.fail(`No zap receipt within ${wait}s — the invoice may not be paid`);
+      }
+
+      const output: ZapOutput = {
+        to: npub,
+        lud16: request.lud16,
+        amountSats: amount,
+        comment: options.comment ?? null,
+        invoice: request.invoice,
+        paymentHash,
+        paid: paid || !!receipt,
+        zapRequestId: request.zapRequest.id,
+        receiptId: receipt?.id ?? null,
+      };
+      emit(output, () => {
+        if (receipt) log(chalk.gray(`  Receipt: ${receipt.id}`));
+      });
+      if (!output.paid) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+withSignerOptions(program.command('zaps [target]'))
+  .description('List zaps your agent (or another agent) has received')
+  .option('--since <date>', 'Only zaps since this date (ISO 8601) or this many hours ago (e.g. 24h)')
+  .option('--limit <n>', 'Max zaps', '50')
+  .option('--any-zapper', 'Include receipts not signed by the agent\'s own lightning service')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (npubArg: string | undefined, options) => {
+    try {
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 1) throw new Error('--limit must be a positive whole number');
+      const since = parseSince(options.since);
+      const pubkey = npubArg ? await resolveTarget(npubArg, createClient()) : await (await resolveSigner(options)).getPublicKey();
+
+      const spinner = ora('Fetching zaps...').start();
+      const relays = await relaysForAuthor(pubkey, resolveRelays(options));
+      // Anyone can publish a receipt; only trust the ones signed by the agent's own LNURL service
+      let zapperPubkey: string | undefined;
+      if (!options.anyZapper) {
+        const profile = await fetchAgentProfile(pubkey, relays);
+        zapperPubkey = profile?.lud16 ? (await fetchPayRequest(profile.lud16).catch(() => null))?.nostrPubkey : undefined;
+        if (!zapperPubkey) {
+          spinner.stop();
+          console.error(chalk.yellow('  ⚠ Could not find the lightning service\'s zapper key — receipts are unverified'));
+          spinner.start();
+        }
+      }
+      const zaps = await fetchZaps(pubkey, relays, { since, limit, zapperPubkey });
+      spinner.stop();
+
+      const rows: ZapsOutput[] = zaps.map((z) => ({
+        id: z.id,
+        from: nip19.npubEncode(z.sender),
+        amountSats: z.amountSats,
+        comment: z.comment,
+        eventId: z.eventId,
+        at: new Date(z.createdAt * 1000).toISOString(),
+      }));
+      emit(rows, () => {
+        if (rows.length === 0) {
+          log(chalk.gray('  No zaps.'));
+          return;
+        }
+        log('');
+        for (const z of rows) {
+          log(`  ${z.at}  ${chalk.hex('#D4A574')(`⚡ ${z.amountSats.toLocaleString()}`)}  ${chalk.gray(z.from)}`);
+          if (z.comment) log(`    ${z.comment}`);
+        }
+        log('');
+        log(chalk.gray(`  ${rows.length} zap${rows.length === 1 ? '' : 's'}, ${rows.reduce((sum, z) => sum + z.amountSats, 0).toLocaleString()} sats`));
+      }, { columns: ['id', 'from', 'amountSats', 'comment', 'eventId', 'at'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== SEARCH ====================
+
+program
+  .command('search [query]')
+  .description('Search the agentdex directory')
+  .option('--capability <cap>', 'Filter by capability')
+  .option('--framework <fw>', 'Filter by framework')
+  .option('--status <status>', 'Filter by status (e.g., active)')
+  .option('--source <filter>', 'Filter by source (sent as source_filter)')
+  .option('--sort <order>', 'Sort order (e.g., trust, recent)')
+  .option('--min-trust <score>', 'Minimum trust score')
+  .option('--limit <n>', 'Max results (page size with --all)', '10')
+  .option('--page <n>', 'Page number')
+  .option('--cursor <cursor>', 'Continue from a cursor returned by a previous search')
+  .option('--all', 'Fetch every page')
+  .action(async (query: string | undefined, options) => {
+    try {
+      const client = createClient();
+      const spinner = ora('Searching...').start();
+
+      const searchOptions: SearchOptions = {
+        q: query,
+        capability: options.capability,
+        framework: options.framework,
+        status: options.status,
+        sourceFilter: options.source,
+        sort: options.sort,
+        minTrust: options.minTrust !== undefined ? Number(options.minTrust) : undefined,
+        limit: parseInt(options.limit),
+        page: options.page ? parseInt(options.page) : undefined,
+        cursor: options.cursor,
+      };
+      if (searchOptions.minTrust !== undefined && Number.isNaN(searchOptions.minTrust)) {
+        throw new Error('--min-trust must be a number');
+      }
+
+      let agents: AgentSummary[] = [];
+      let nextCursor: string | undefined;
+      if (options.all) {
+        for await (const agent of client.searchAll(searchOptions)) {
+          agents.push(agent);
+          spinner.text = `Searching... ${agents.length} agents`;
+        }
+      } else {
+        const page = await client.searchPage(searchOptions);
+        agents = page.agents;
+        nextCursor = page.nextCursor;
+      }
+
+      spinner.stop();
+
+      emit(agents, () => {
+        if (agents.length === 0) {
+          log(chalk.gray('No agents found.'));
+          return;
+        }
+
+        for (const agent of agents) {
+          const trust = agent.trustScore ? chalk.hex('#D4A574')(`[${agent.trustScore}]`) : '';
+          log(`${chalk.white(agent.name)} ${trust} ${chalk.gray(agent.npub?.substring(0, 20) + '...')}`);
+          if (agent.description) log(chalk.gray(`  ${agent.description.substring(0, 80)}`));
+          if (agent.capabilities?.length) log(chalk.gray(`  ${agent.capabilities.join(', ')}`));
+          log('');
+        }
+
+        log(chalk.gray(`${agents.length} agents found`));
+      }, { columns: ['name', 'npub', 'trustScore', 'nip05', 'framework', 'model', 'status', 'capabilities', 'description'] });
+      if (nextCursor) console.error(chalk.gray(`More results: agentdex search ${query ? `"${query}" ` : ''}--cursor ${nextCursor}`));
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== WHOAMI ====================
+
+withSignerOptions(program.command('whoami'))
+  .description('Show your agent profile')
+  .action(async (options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const npub = nip19.npubEncode(await signer.getPublicKey());
+      const client = createClient();
+
+      const spinner = ora('Looking up...').start();
+      const result = await client.verify(npub);
+      spinner.stop();
+
+      const output: WhoamiOutput = {
+        npub,
+        pubkey: await signer.getPublicKey(),
+        registered: result.registered,
+        name: result.name,
+        trustScore: result.registered ? result.trustScore : null,
+        capabilities: result.capabilities || [],
+        hasNostr: result.hasNostr,
+        hasAgentdex: result.hasAgentdex,
+      };
+      emit(output, () => {
+        if (result.registered) {
+          log(chalk.hex('#D4A574')(`  ${result.name}`));
+          log(chalk.gray(`  ${npub}`));
+          log(chalk.gray(`  Trust: ${result.trustScore}`));
+          log(chalk.gray(`  Nostr: ${result.hasNostr ? '✅' : '❌'}  Agentdex: ${result.hasAgentdex ? '✅' : '❌'}`));
+          log(chalk.gray(`  Capabilities: ${result.capabilities.join(', ') || 'none'}`));
+        } else {
+          log(chalk.yellow('  Not registered on agentdex yet.'));
+          log(chalk.gray(`  npub: ${npub}`));
+          log(chalk.gray(`  Run: agentdex register`));
+        }
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== PUBLISH ====================
+
+withPublishOptions(withSignerOptions(program.command('publish <message>')))
+  .description('Publish a note tagged #agentdex')
+  .option('--relay <url>', 'Additional relay', (val: string, acc: string[]) => [...acc, val], [])
+  .action(async (message: string, options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const event = await createNote(signer, message);
+      const report = await publishWithReport(event, await resolveWriteRelays(event.pubkey, options), options, 'Publishing...');
+
+      const output: PublishOutput = { npub: nip19.npubEncode(event.pubkey), eventId: event.id, relays: report.accepted, relayResults: report.results };
+      emit(output, () => {
+        log(chalk.gray(`  Event ID: ${event.id}`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== RELAYS ====================
+
+/** `relays add`, `relays remove` and `relays publish` */
+interface RelayListOutput {
+  npub: string;
+  eventId: string;
+  entries: RelayListEntry[];
+  relays: string[];
+  relayResults: RelayPublishResult[];
+}
+
+/**
+ * Starting point when there is no kind 10002 list yet: the identity's relays, read and write
+ */
+function seedRelayList(options: { relay?: string[] }): RelayListEntry[] {
+  return resolveRelays(options).map((url) => ({ url, read: true, write: true }));
+}
+
+/**
+ * Sign and publish a relay list to its own write relays, the previous list's
+ * write relays, our usual relays, and the relay list indexers
+ */
+async function publishRelayList(signer: Signer, entries: RelayListEntry[], previous: RelayList | null, options: { relay?: string[] } & Parameters<typeof publishOptions>[0]): Promise<void> {
+  if (entries.length === 0) throw new Error('Refusing to publish an empty relay list.');
+  const event = await buildRelayListEvent(signer, entries);
+  const targets = [...new Set([
+    ...writeRelays(entries),
+    ...(previous ? writeRelays(previous.entries) : []),
+    ...resolveRelays(options),
+    ...RELAY_LIST_INDEXERS,
+  ])];
+  const report = await publishWithReport(event, targets, options, 'Publishing relay list...');
+
+  const output: RelayListOutput = {
+    npub: nip19.npubEncode(event.pubkey),
+    eventId: event.id,
+    entries,
+    relays: report.accepted,
+    relayResults: report.results,
+  };
+  emit(output, () => {
+    printRelayList(entries);
+    log(chalk.gray(`  Event ID: ${event.id}`));
+  }, { rows: entries, columns: ['url', 'read', 'write'] });
+}
+
+function printRelayList(entries: RelayListEntry[]): void {
+  for (const e of entries) {
+    const mode = e.read && e.write ? 'read+write' : e.read ? 'read' : 'write';
+    log(`  ${chalk.white(e.url)} ${chalk.gray(mode)}`);
+  }
+}
+
+const relays = program
+  .command('relays')
+  .description('Manage your NIP-65 relay list (kind 10002)');
+
+withSignerOptions(relays.command('list [target]'))
+  .description('Show a relay list (yours, or another agent\'s)')
+  .option('--relay <url>', 'Additional relay to look on (repeatable)', collect, [])
+  .action(async (npubArg: string | undefined, options) => {
+    try {
+      const pubkey = npubArg ? await resolveTarget(npubArg) : await (await resolveSigner(options)).getPublicKey();
+      const spinner = ora('Fetching relay list...').start();
+      const list = await fetchRelayList(pubkey, resolveRelays(options));
+      spinner.stop();
+
+      const entries = list?.entries ?? [];
+      const data = {
+        npub: nip19.npubEncode(pubkey),
+        eventId: list?.event.id ?? null,
+        updatedAt: list ? new Date(list.event.created_at * 1000).toISOString() : null,
+        entries,
+        read: readRelays(entries),
+        write: writeRelays(entries),
+      };
+      emit(data, () => {
+        if (!list) {
+          log(chalk.yellow('  No kind 10002 relay list found.'));
+          if (!npubArg) log(chalk.gray('  Publish one from your configured relays with: agentdex relays publish'));
+          return;
+        }
+        printRelayList(entries);
+        log(chalk.gray(`  Updated: ${data.updatedAt}`));
+      }, { rows: entries, columns: ['url', 'read', 'write'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+withPublishOptions(withSignerOptions(relays.command('add <url>')))
+  .description('Add a relay to your list (read and write unless --read or --write) and republish it')
+  .option('--read', 'Read (inbox) relay only')
+  .option('--write', 'Write (outbox) relay only')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (url: string, options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const spinner = ora('Fetching relay list...').start();
+      const current = await fetchRelayList(await signer.getPublicKey(), resolveRelays(options));
+      spinner.stop();
+
+      const both = !!options.read === !!options.write;
+      const entries = addRelay(current?.entries ?? seedRelayList(options), url, { read: both || !!options.read, write: both || !!options.write });
+      await publishRelayList(signer, entries, current, options);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+withPublishOptions(withSignerOptions(relays.command('remove <url>')))
+  .description('Remove a relay from your list and republish it')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (url: string, options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const spinner = ora('Fetching relay list...').start();
+      const current = await fetchRelayList(await signer.getPublicKey(), resolveRelays(options));
+      spinner.stop();
+
+      if (!current) throw new Error('No kind 10002 relay list found. Nothing to remove.');
+      const entries = removeRelay(current.entries, url);
+      if (entries.length === current.entries.length) throw new Error(`${url} is not in your relay list.`);
+      await publishRelayList(signer, entries, current, options);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+withPublishOptions(withSignerOptions(relays.command('publish')))
+  .description('Republish your relay list, or create one from the identity\'s relays')
+  .option('--from-config', 'Replace the list with the identity\'s configured relays')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const signer = await resolveSigner(options);
+      const spinner = ora('Fetching relay list...').start();
+      const current = await fetchRelayList(await signer.getPublicKey(), resolveRelays(options));
+      spinner.stop();
+
+      const entries = options.fromConfig || !current ? seedRelayList(options) : current.entries;
+      await publishRelayList(signer, entries, current, options);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
+
+// ==================== FLEET ====================
+
+/** `fleet spawn` — one row per child */
+interface FleetSpawnOutput {
+  name: string;
+  npub: string;
+  keyFile: string;
+  registered: boolean;
+  paid: boolean;
+  eventId: string | null;
+  relays: string[];
+  error: string | null;
+}
+
+/** `fleet list` — one row per agent below the parent */
+interface FleetListOutput {
+  npub: string;
+  name: string | null;
+  status: string | null;
+  parent: string;
+  depth: number;
+  /** Local key file, if the child's key is stored under this identity */
+  keyFile: string | null;
+  /** False for stored keys whose profile wasn't found on relays */
+  onRelays: boolean;
+}
+
+/** `fleet update` and `fleet retire` — one row per child */
+interface FleetUpdateOutput {
+  name: string;
+  npub: string;
+  changed: boolean;
+  eventId: string | null;
+  relays: string[];
+  registered: boolean;
+  error: string | null;
+}
+
+/** A child key stored under its parent, read without decrypting it */
+interface FleetKey {
+  name: string;
+  pubkey: string;
+  keyFile: string;
+}
 
 /**
- * Resolve secret key from flags, env, or key file
+ * Where a parent's child keys are kept: one key file per child, named after
+ * it, in <config dir>/fleet/<parent npub>
  */
-const DEFAULT_KEY_PATH = `${process.env.HOME}/.config/nostr/agent.json`;
+function fleetDir(parentHex: string): string {
+  return join(configDir(), 'fleet', nip19.npubEncode(parentHex));
+}
 
-function resolveKey(options: { nsec?: string; keyFile?: string }, allowGenerate = false): Uint8Array {
-  const raw = options.nsec || process.env.NOSTR_NSEC;
-  if (raw) return parseSecretKey(raw);
+function storedFleetKeys(parentHex: string): FleetKey[] {
+  const dir = fleetDir(parentHex);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter((file) => file.endsWith('.json')).map((file) => {
+    const keyFile = join(dir, file);
+    return { name: file.slice(0, -'.json'.length), pubkey: JSON.parse(readFileSync(keyFile, 'utf-8')).pk_hex, keyFile };
+  });
+}
 
-  if (options.keyFile) {
-    const data = JSON.parse(readFileSync(options.keyFile, 'utf-8'));
-    if (data.sk_hex) return parseSecretKey(data.sk_hex);
-    if (data.nsec) return parseSecretKey(data.nsec);
-    throw new Error('Key file must contain sk_hex or nsec');
-  }
+/**
+ * Stored child keys, narrowed to --only (names, npubs or hex pubkeys)
+ */
+function selectFleetKeys(parentHex: string, only: string[]): FleetKey[] {
+  const keys = storedFleetKeys(parentHex);
+  if (keys.length === 0) throw new Error(`No child keys stored for ${nip19.npubEncode(parentHex)}. Run \`agentdex fleet spawn\` first.`);
+  if (only.length === 0) return keys;
+  return only.map((entry) => {
+    const pubkey = /^(npub1|[0-9a-f]{64}$)/i.test(entry) ? toHexPubkey(entry, '--only') : undefined;
+    const key = keys.find((k) => k.name === entry || k.pubkey === pubkey);
+    if (!key) throw new Error(`No stored child matches "${entry}". Run \`agentdex fleet list\` to see the fleet.`);
+    return key;
+  });
+}
 
-  // Auto-generate for register if no key provided
-  if (allowGenerate) {
-    const { sk, npub, path } = generateAndSaveKeypair(DEFAULT_KEY_PATH);
-    console.log('');
-    console.log(chalk.hex('#D4A574')('  🔑 No key found. Generated a new Nostr keypair.'));
-    console.log(chalk.gray(`  Saved to: ${path}`));
-    console.log(chalk.gray(`  npub: ${npub}`));
-    console.log('');
-    console.log(chalk.yellow('  ⚠️  IMPORTANT: Your secret key is in that file.'));
-    console.log(chalk.yellow('  Store it somewhere secure. If you lose it, you lose this identity.'));
-    console.log(chalk.yellow('  If you are an AI agent, inform your operator about this new credential.'));
-    console.log('');
-    return sk;
+/**
+ * Signers for child keys, asking for the passphrase at most once
+ */
+async function fleetSigners(keys: FleetKey[]): Promise<{ key: FleetKey; signer: LocalSigner }[]> {
+  const passphrase = keys.some((key) => isEncryptedKeyFile(key.keyFile)) ? await getPassphrase() : undefined;
+  return keys.map((key) => ({ key, signer: new LocalSigner(readKeyFile(key.keyFile, passphrase)) }));
+}
+
+/**
+ * Run fn for each child in turn. A child that fails gets an error row; the rest still run.
+ */
+async function forEachChild<T extends { name: string; npub: string; error: string | null }>(
+  children: { key: FleetKey; signer: LocalSigner }[],
+  verb: string,
+  fn: (child: { key: FleetKey; signer: LocalSigner }) => Promise<Omit<T, 'name' | 'npub' | 'error'>>,
+  failed: Omit<T, 'name' | 'npub' | 'error'>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  const spinner = ora().start();
+  for (const [i, child] of children.entries()) {
+    spinner.text = `${verb} ${child.key.name} (${i + 1}/${children.length})...`;
+    const base = { name: child.key.name, npub: nip19.npubEncode(child.key.pubkey) };
+    try {
+      rows.push({ ...base, ...await fn(child), error: null } as T);
+    } catch (err) {
+      rows.push({ ...base, ...failed, error: describeError(err).message.replace(/^Error: /, '') } as T);
+    }
   }
+  spinner.stop();
+  return rows;
+}
 
-  throw new Error('No key provided. Use --nsec, --key-file, or set NOSTR_NSEC env var.');
+function printFleetUpdates(rows: FleetUpdateOutput[], done: string): void {
+  for (const row of rows) {
+    const npub = chalk.gray(`${row.npub.substring(0, 20)}...`);
+    if (row.error) log(chalk.red(`  ✗ ${row.name} ${npub}: ${row.error}`));
+    else log(`  ${row.changed ? chalk.green('✔') : chalk.gray('·')} ${row.name} ${npub}${row.changed ? '' : chalk.gray(' (no changes)')}${row.eventId && !row.registered ? chalk.yellow(' (relays only: agentdex wants a registration fee)') : ''}`);
+  }
+  const errors = rows.filter((row) => row.error).length;
+  log(chalk.gray(`\n  ${rows.filter((row) => row.changed && !row.error).length} ${done}, ${errors} errors`));
 }
 
-// ==================== REGISTER ====================
+const fleet = program
+  .command('fleet')
+  .description('Manage child agents that name this agent as their parent');
 
-program
-  .command('register')
-  .description('Register your agent on agentdex')
-  .option('--nsec <nsec>', 'Nostr secret key (nsec or hex)')
-  .option('--key-file <path>', 'Path to JSON key file')
-  .option('--name <name>', 'Agent name')
-  .option('--description <desc>', 'Agent description')
+withPublishOptions(withSignerOptions(fleet.command('spawn <count>'), "Parent's"), 'Fail a child unless at least this many relays accept its profile')
+  .description('Generate keys for child agents and register them with this agent as parent')
+  .option('--name <pattern>', 'Child name, {n} replaced by its number (default "<template name>-{n}" or "worker-{n}")')
+  .option('--description <desc>', 'Child description ({n} replaced by its number)')
   .option('--capabilities <caps>', 'Comma-separated capabilities')
   .option('--framework <fw>', 'Framework (e.g., langchain, openclaw)')
   .option('--model <model>', 'Model (e.g., claude-3.5-sonnet)')
-  .option('--website <url>', 'Website URL')
-  .option('--avatar <url>', 'Avatar image URL (sets picture in kind 0 profile)')
-  .option('--lightning <addr>', 'Lightning address (sets lud16 in kind 0 profile)')
-  .option('--owner-x <handle>', 'Owner X/Twitter handle (e.g., @username)')
-  .option('--owner <npub-or-hex>', 'Owner/operator Nostr pubkey (npub or hex) — sets kind 0 p tag for bidirectional verification')
-  .option('--owner-type <type>', 'Owner type: human, agent, org (sets owner_type tag on kind 31339)')
-  .option('--parent <npub-or-hex>', 'Parent/orchestrator agent pubkey (npub or hex)')
-  .option('--bot', 'Add ["bot"] tag to kind 0 profile (declares this pubkey as automated)')
-  .option('--portfolio <entry>', 'Portfolio entry (format: "id,url,label,description") — repeatable', (val: string, acc: string[]) => [...acc, val], [])
-  .option('--skill <skill>', 'Skill tag (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
-  .option('--experience <exp>', 'Experience tag (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
-  .option('--nwc <uri>', 'Nostr Wallet Connect URI for auto-pay')
+  .option('--status <status>', `Initial status: ${AGENT_STATUSES.join(', ')} (default active)`)
+  .option('--bot', 'Add ["bot"] tag to each child\'s kind 0 profile')
+  .option('--from <file>', 'Template manifest for every child (flags override it)')
+  .option('--start <n>', 'Number of the first child (default: one past the children already stored)')
+  .option('--nwc <uri>', 'Nostr Wallet Connect URI to auto-pay registration fees')
+  .option('--max-sats <sats>', 'Refuse to auto-pay invoices above this amount')
+  .option('--yes', 'Auto-pay without asking for confirmation')
   .option('--api-key <key>', 'Agentdex API key')
-  .option('--relay <url>', 'Additional relay (repeatable)', (val: string, acc: string[]) => [...acc, val], [])
-  .option('--json', 'Output JSON')
-  .action(async (options) => {
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (countArg: string, options) => {
     try {
-      const sk = resolveKey(options, true);
-      const npub = getNpub(sk);
-      const pubHex = getPubkeyHex(sk);
-
-      let name = options.name;
-      let description = options.description;
-      let capabilities = options.capabilities?.split(',').map((s: string) => s.trim());
-      let framework = options.framework;
-
-      // Interactive mode if name not provided
-      if (!name) {
-        const answers = await inquirer.prompt([
-          { type: 'input', name: 'name', message: 'Agent name:', validate: (v: string) => v.length > 0 || 'Required' },
-          { type: 'input', name: 'description', message: 'Description (optional):' },
-          { type: 'input', name: 'capabilities', message: 'Capabilities (comma-separated):' },
-          { type: 'input', name: 'framework', message: 'Framework (optional):' },
-        ]);
-        name = answers.name;
-        description = answers.description || description;
-        capabilities = answers.capabilities ? answers.capabilities.split(',').map((s: string) => s.trim()) : capabilities;
-        framework = answers.framework || framework;
+      const count = Number(countArg);
+      if (!Number.isInteger(count) || count < 1) throw new Error('<count> must be a whole number, 1 or more');
+      const parent = await (await resolveSigner(options)).getPublicKey();
+      const stored = storedFleetKeys(parent);
+      const start = options.start !== undefined ? Number(options.start) : stored.length + 1;
+      if (!Number.isInteger(start) || start < 0) throw new Error('--start must be a whole number');
+
+      const template: AgentManifest = { ...(options.from ? loadManifest(options.from) : {}), ...manifestFromFlags(options) };
+      let pattern: string = options.name || `${template.name || 'worker'}-{n}`;
+      if (!pattern.includes('{n}')) pattern += count > 1 ? '-{n}' : '';
+      const specs: AgentManifest[] = Array.from({ length: count }, (_, i) => ({
+        ...template,
+        name: pattern.replaceAll('{n}', String(start + i)),
+        description: template.description?.replaceAll('{n}', String(start + i)),
+        parent,
+        status: template.status || 'active',
+      }));
+
+      const files = specs.map((spec) => spec.name!.replace(/[^a-zA-Z0-9._-]+/g, '-'));
+      const taken = files.filter((file, i) => files.indexOf(file) !== i || stored.some((key) => key.name === file));
+      if (taken.length > 0) throw new Error(`A child named ${taken[0]} already exists. Use another --name or --start.`);
+      for (const spec of specs) {
+        checkIssues([...validateProfile(manifestProfile(spec)), ...validateKind0(manifestKind0(spec))]);
       }
 
-      const spinner = ora('Signing event...').start();
+      const client = createClient(options);
+      const rows: FleetSpawnOutput[] = [];
+      const spinner = ora().start();
+      for (const [i, spec] of specs.entries()) {
+        spinner.start(`Registering ${spec.name} (${i + 1}/${count})...`);
+        // Save the key first, so a child that fails to register can be retried
+        const { sk, npub, path } = generateAndSaveKeypair(join(fleetDir(parent), `${files[i]}.json`), process.env.AGENTDEX_KEY_PASSPHRASE);
+        const row: FleetSpawnOutput = { name: spec.name!, npub, keyFile: path, registered: false, paid: false, eventId: null, relays: [], error: null };
+        rows.push(row);
+        const payment = cliPaymentOptions(options, spinner, (p) => `  💰 Registration fee for ${spec.name}: ${p.amountSats?.toLocaleString()} sats`);
+        try {
+          const signer = new LocalSigner(sk);
+          const relays = await resolveWriteRelays(await signer.getPublicKey(), options);
+          const event = await createProfileEvent(signer, manifestProfile(spec));
+          const { payment: paid } = await client.registerWithPayment(event, payment.flow);
+          payment.pollSpinner.stop();
+          row.registered = true;
+          row.paid = !!paid;
+          row.eventId = event.id;
+
+          const report = await publishEvent(event, relays, publishOptions(options));
+          row.relays = report.accepted;
+          const kind0 = await buildKind0Event(signer, { ...manifestKind0(spec), about: spec.description, bot: !!spec.bot }, relays);
+          await publishEvent(kind0, relays, publishOptions(options));
+          if (!report.ok) throw new PublishError(report);
+        } catch (err) {
+          payment.pollSpinner.stop();
+          row.error = describeError(err, 'Registration').message.replace(/^Error: /, '');
+        }
+      }
+      spinner.stop();
 
-      // Parse portfolio entries ("id,url,label,description")
-      const portfolio = (options.portfolio || []).map((entry: string) => {
-        const parts = entry.split(',').map((s: string) => s.trim());
-        // Support both: "id,url,label,desc" (new) and "url,label,desc" (old)
-        if (parts.length >= 2 && parts[1]?.startsWith('http')) {
-          return { id: parts[0], url: parts[1], name: parts[2], description: parts[3] };
+      const errors = rows.filter((row) => row.error).length;
+      emit(rows, () => {
+        for (const row of rows) {
+          const npub = chalk.gray(`${row.npub.substring(0, 20)}...`);
+          if (row.error) log(chalk.red(`  ✗ ${row.name} ${npub}: ${row.error}`));
+          else log(`  ${chalk.green('✔')} ${row.name} ${npub} ${chalk.gray(`→ ${row.relays.length} relays`)}`);
         }
-        // Old format fallback
-        const id = (parts[1] || parts[0]).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
-        return { id, url: parts[0], name: parts[1], description: parts[2] };
-      });
+        log(chalk.gray(`\n  ${rows.length - errors} registered, ${errors} errors. Keys are in ${fleetDir(parent)}`));
+      }, { columns: ['name', 'npub', 'keyFile', 'registered', 'paid', 'eventId', 'relays', 'error'] });
+      if (errors > 0) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      // Resolve owner pubkey hex from --owner flag (npub or hex)
-      let ownerNpub = options.owner;
-      let ownerPubkeyHex: string | undefined;
-      if (ownerNpub) {
-        if (ownerNpub.startsWith('npub')) {
-          try {
-            const decoded = nip19.decode(ownerNpub);
-            ownerPubkeyHex = decoded.data as unknown as string;
-          } catch {
-            console.error(chalk.red('Invalid --owner npub'));
-            process.exit(1);
-          }
-        } else {
-          ownerPubkeyHex = ownerNpub;
-          ownerNpub = nip19.npubEncode(ownerNpub);
+withSignerOptions(fleet.command('list [parent]'))
+  .description('Show the agents that name a parent (default: your agent) in their profile, as a tree')
+  .option('--depth <n>', 'Levels of children to follow', '1')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (target: string | undefined, options) => {
+    try {
+      const depth = Number(options.depth);
+      if (!Number.isInteger(depth) || depth < 1) throw new Error('--depth must be a whole number, 1 or more');
+      const parent = target ? await resolveTarget(target) : await (await resolveSigner(options)).getPublicKey();
+      const stored = storedFleetKeys(parent);
+
+      const spinner = ora('Fetching fleet from relays...').start();
+      const tree = await fetchFleet(parent, { relays: resolveRelays(options), authors: stored.map((key) => key.pubkey), depth });
+      spinner.stop();
+
+      const rows: FleetListOutput[] = [];
+      const walk = (node: FleetNode, level: number) => {
+        for (const child of node.children) {
+          const keyFile = stored.find((key) => key.pubkey === child.pubkey)?.keyFile ?? null;
+          rows.push({ npub: child.npub, name: child.name, status: child.status, parent: node.npub, depth: level, keyFile, onRelays: true });
+          walk(child, level + 1);
         }
+      };
+      walk(tree, 1);
+      const missing = stored.filter((key) => !tree.children.some((child) => child.pubkey === key.pubkey));
+      for (const key of missing) {
+        rows.push({ npub: nip19.npubEncode(key.pubkey), name: key.name, status: null, parent: tree.npub, depth: 1, keyFile: key.keyFile, onRelays: false });
       }
 
-      // Resolve parent pubkey hex from --parent flag
-      let parentHex: string | undefined;
-      if (options.parent) {
-        if (options.parent.startsWith('npub')) {
-          try {
-            const decoded = nip19.decode(options.parent);
-            parentHex = decoded.data as unknown as string;
-          } catch {
-            console.error(chalk.red('Invalid --parent npub'));
-            process.exit(1);
-          }
-        } else {
-          parentHex = options.parent;
+      emit(rows, () => {
+        const statusColor = (status: string) => status === 'active' ? chalk.green(status) : status === 'retired' || status === 'offline' ? chalk.gray(status) : chalk.yellow(status);
+        const lines = renderFleetTree(tree, (node) => {
+          const label = node === tree ? chalk.hex('#D4A574')(node.name || 'parent') : node.name || chalk.gray('unnamed');
+          return `${label} ${chalk.gray(`${node.npub.substring(0, 20)}...`)}${node.status && node !== tree ? ` ${statusColor(node.status)}` : ''}`;
+        });
+        for (const line of lines.split('\n')) log(`  ${line}`);
+        if (missing.length > 0) {
+          log('');
+          log(chalk.yellow(`  ${missing.length} stored key(s) not found on relays:`));
+          for (const key of missing) log(chalk.gray(`    ${key.name} ${nip19.npubEncode(key.pubkey)}`));
         }
-      }
+        log(chalk.gray(`\n  ${tree.children.length} children`));
+      }, { columns: ['npub', 'name', 'status', 'parent', 'depth', 'keyFile', 'onRelays'] });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      const event = createProfileEvent(sk, {
-        name,
-        description,
-        capabilities,
-        framework,
+withPublishOptions(withSignerOptions(fleet.command('update'), "Parent's"), 'Fail a child unless at least this many relays accept its profile')
+  .description('Apply the same profile changes to every stored child (or those picked with --only)')
+  .option('--only <child>', 'Only this child: name, npub or hex (repeatable)', collect, [])
+  .option('--description <desc>', 'Agent description')
+  .option('--capabilities <caps>', 'Replace all capabilities (comma-separated)')
+  .option('--add-capability <cap>', 'Add a capability (repeatable)', collect, [])
+  .option('--remove-capability <cap>', 'Remove a capability (repeatable)', collect, [])
+  .option('--framework <fw>', 'Framework (e.g., langchain, openclaw)')
+  .option('--model <model>', 'Model (e.g., claude-3.5-sonnet)')
+  .option('--status <status>', `Agent status: ${AGENT_STATUSES.join(', ')}`)
+  .option('--messaging-policy <policy>', `Who may message the children: ${MESSAGING_POLICIES.join(', ')}`)
+  .option('--dry-run', 'Show what would change without publishing')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const updates = defined({
+        description: options.description,
+        capabilities: options.capabilities?.split(',').map((s: string) => s.trim()).filter(Boolean),
+        addCapabilities: options.addCapability,
+        removeCapabilities: options.removeCapability,
+        framework: options.framework,
         model: options.model,
-        ownerType: options.ownerType,
-        ownerX: options.ownerX,
-        parent: parentHex,
-        status: 'active',
-        portfolio: portfolio.length > 0 ? portfolio : undefined,
-        skills: options.skill?.length > 0 ? options.skill : undefined,
-        experience: options.experience?.length > 0 ? options.experience : undefined,
+        status: options.status,
+        messagingPolicy: options.messagingPolicy,
       });
+      checkIssues(validateProfileUpdate(updates));
+
+      const parent = await (await resolveSigner(options)).getPublicKey();
+      const children = await fleetSigners(selectFleetKeys(parent, options.only));
+      const client = createClient(options);
+
+      const rows = await forEachChild<FleetUpdateOutput>(children, 'Updating', async ({ key, signer }) => {
+        const relays = await resolveWriteRelays(key.pubkey, options);
+        const { event, diff } = await buildProfileUpdateEvent(signer, updates, relays);
+        const changed = diff.added.length > 0 || diff.removed.length > 0;
+        if (!changed || options.dryRun) return { changed, eventId: null, relays: [], registered: false };
+        const report = await publishEvent(event, relays, publishOptions(options));
+        if (!report.ok) throw new PublishError(report);
+        const response = await client.register(event);
+        return { changed, eventId: event.id, relays: report.accepted, registered: response?.status !== 'awaiting_payment' };
+      }, { changed: false, eventId: null, relays: [], registered: false });
+
+      emit(rows, () => printFleetUpdates(rows, options.dryRun ? 'would change' : 'updated'),
+        { columns: ['name', 'npub', 'changed', 'eventId', 'relays', 'registered', 'error'] });
+      if (rows.some((row) => row.error)) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err, undefined, 'Update');
+    }
+  });
 
-      spinner.text = 'Registering on agentdex...';
-      const client = new AgentdexClient({ apiKey: options.apiKey });
-
-      try {
-        const result = await client.register(event);
-
-        // Payment required (402)
-        if (result.status === 'awaiting_payment' && result.invoice) {
-          spinner.stop();
-          console.log('');
-          console.log(chalk.hex('#D4A574')(`  💰 Registration fee: ${result.amount_sats?.toLocaleString()} sats`));
-          console.log('');
-
-          const nwcUri = options.nwc || process.env.NWC_URL;
-
-          if (nwcUri) {
-            const paySpinner = ora('Paying invoice via NWC...').start();
-            try {
-              await payInvoice(nwcUri, result.invoice);
-              paySpinner.succeed('Invoice paid!');
-            } catch (payErr) {
-              paySpinner.fail(`NWC payment failed: ${(payErr as Error).message}`);
-              console.log('');
-              console.log(chalk.gray('  Pay manually:'));
-              qrcode.generate(result.invoice, { small: true }, (qr: string) => { console.log(qr); });
-              console.log(chalk.gray(`  bolt11: ${result.invoice}`));
-              console.log('');
-            }
-          } else {
-            qrcode.generate(result.invoice, { small: true }, (qr: string) => { console.log(qr); });
-            console.log(chalk.gray(`  bolt11: ${result.invoice}`));
-            console.log('');
-          }
-
-          // Poll for payment
-          const pollSpinner = ora('Waiting for payment...').start();
-          const startTime = Date.now();
-          const timeout = 15 * 60 * 1000;
-
-          while (Date.now() - startTime < timeout) {
-            await new Promise((r) => setTimeout(r, 3000));
-            const status = await client.registerStatus(result.payment_hash!);
-            if (status.paid) {
-              pollSpinner.succeed('Registered!');
-
-              spinner.text = 'Publishing to Nostr relays...';
-              const relays = ['wss://nos.lol', 'wss://relay.damus.io', ...options.relay];
-              const published = await publishToRelays(event, relays);
-
-              if (options.json) {
-                console.log(JSON.stringify({ ...result, relays: published }, null, 2));
-              } else {
-                console.log('');
-                console.log(chalk.hex('#D4A574')('  ✅ Registered on agentdex'));
-                console.log(chalk.gray(`  npub: ${npub}`));
-                console.log(chalk.gray(`  Name: ${name}`));
-                console.log(chalk.gray(`  Published to: ${published.join(', ')}`));
-                console.log('');
-                console.log(chalk.gray(`  Run ${chalk.white('agentdex claim <name>')} to get ${chalk.hex('#D4A574')('<name>@agentdex.id')}`));
-
-                // Publish kind 0 profile (fetch existing, merge, republish)
-                const k0Spinner = ora('Publishing kind 0 profile to Nostr relays...').start();
-                try {
-                  const kind0 = await buildKind0Event(sk, {
-                    name,
-                    about: description || undefined,
-                    picture: options.avatar || undefined,
-                    lud16: options.lightning || undefined,
-                    ownerPubkeyHex,
-                    bot: !!options.bot,
-                  }, relays);
-                  await publishToRelays(kind0, relays);
-                  k0Spinner.succeed('Kind 0 published — visible on all Nostr clients');
-                } catch {
-                  k0Spinner.warn('Kind 0 publish failed — agent may not appear on standard Nostr clients');
-                }
-              }
-              return;
-            }
-          }
-
-          pollSpinner.fail('Payment timeout (15 min). Invoice expired.');
-          process.exit(1);
-          return;
-        }
-
-        // Free registration — no payment needed
-        spinner.text = 'Publishing to Nostr relays...';
-        const relays = ['wss://nos.lol', 'wss://relay.damus.io', ...options.relay];
-        const published = await publishToRelays(event, relays);
+withPublishOptions(withSignerOptions(fleet.command('retire'), "Parent's"), 'Fail a child unless at least this many relays accept its profile')
+  .description('Set stored children\'s status to retired')
+  .option('--only <child>', 'Only this child: name, npub or hex (repeatable)', collect, [])
+  .option('--all', 'Retire every stored child')
+  .option('--message <text>', 'Note shown next to the status')
+  .option('--api-key <key>', 'Agentdex API key')
+  .option('--relay <url>', 'Additional relay (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      if (!options.all && options.only.length === 0) throw new Error('Pass --only <child> for each child to retire, or --all.');
+      const parent = await (await resolveSigner(options)).getPublicKey();
+      const children = await fleetSigners(selectFleetKeys(parent, options.all ? [] : options.only));
+      const client = createClient(options);
+
+      const rows = await forEachChild<FleetUpdateOutput>(children, 'Retiring', async ({ key, signer }) => {
+        const relays = await resolveWriteRelays(key.pubkey, options);
+        const result = await setStatus(signer, 'retired', { message: options.message, relays, publish: publishOptions(options), client });
+        if (!result.report.ok) throw new PublishError(result.report);
+        return { changed: result.diff.added.length > 0 || result.diff.removed.length > 0, eventId: result.event.id, relays: result.report.accepted, registered: result.registered };
+      }, { changed: false, eventId: null, relays: [], registered: false });
+
+      emit(rows, () => printFleetUpdates(rows, 'retired'),
+        { columns: ['name', 'npub', 'changed', 'eventId', 'relays', 'registered', 'error'] });
+      if (rows.some((row) => row.error)) process.exit(EXIT_CODES.error);
+    } catch (err) {
+      exitWithError(err, undefined, 'Retire');
+    }
+  });
 
-        spinner.succeed('Registered!');
+// ==================== KEYS ====================
 
-        if (options.json) {
-          console.log(JSON.stringify({ ...result, relays: published }, null, 2));
-        } else {
-          console.log('');
-          console.log(chalk.hex('#D4A574')('  ✅ Registered on agentdex (free tier)'));
-          console.log(chalk.gray(`  npub: ${npub}`));
-          console.log(chalk.gray(`  Name: ${name}`));
-          console.log(chalk.gray(`  Published to: ${published.join(', ')}`));
-          if (result.claim_url) {
-            console.log('');
-            console.log(chalk.hex('#D4A574')('  📋 Claim URL: ') + chalk.white(result.claim_url));
-            console.log(chalk.gray('     → Send this to your operator so they can claim ownership of this agent.'));
-            console.log(chalk.gray('     → They\'ll verify via email to link this agent to their account.'));
-          }
-          console.log('');
-          console.log(chalk.gray(`  Run ${chalk.white('agentdex claim <name>')} to get ${chalk.hex('#D4A574')('<name>@agentdex.id')}`));
-          console.log('');
-          // Publish kind 0 profile (fetch existing, merge, republish)
-          // Kind 0 is canonical for basic profile; kind 31339 is agent-specific metadata
-          const k0Spinner = ora('Publishing kind 0 profile to Nostr relays...').start();
-          try {
-            const kind0 = await buildKind0Event(sk, {
-              name,
-              about: description || undefined,
-              picture: options.avatar || undefined,
-              lud16: options.lightning || undefined,
-              ownerPubkeyHex,
-              bot: !!options.bot,
-            }, relays);
-            await publishToRelays(kind0, relays);
-            k0Spinner.succeed('Kind 0 published — visible on all Nostr clients');
-          } catch {
-            k0Spinner.warn('Kind 0 publish failed — agent may not appear on standard Nostr clients');
-          }
+const keys = program
+  .command('keys')
+  .description('Generate, inspect, encrypt and export Nostr keys');
 
-          console.log(chalk.gray('  Next: Claim a NIP-05 name to get verified (first 100 free, then 5000 sats).'));
-        }
-        process.exit(0);
-      } catch (err) {
-        const apiErr = err as any;
-        if (apiErr.status === 503) {
-          spinner.fail('Registration is currently disabled.');
-        } else {
-          spinner.fail(`Registration failed: ${(err as Error).message}`);
-        }
-        process.exit(1);
+keys
+  .command('generate')
+  .description('Generate a new keypair')
+  .option('--out <path>', 'Where to write the key file (default: identity key file or ~/.config/nostr/agent.json)')
+  .option('--encrypt', 'Encrypt the key file with a passphrase (NIP-49)')
+  .option('--force', 'Overwrite an existing key file')
+  .option('--qr', 'Print a QR code of the npub')
+  .action(async (options) => {
+    try {
+      const path = options.out || resolveKeyFilePath({});
+      if (existsSync(path) && !options.force) {
+        throw new Error(`${path} already exists. Use --force to overwrite it.`);
       }
+      const passphrase = options.encrypt ? await getPassphrase(true) : undefined;
+      const { npub } = generateAndSaveKeypair(path, passphrase);
+
+      emit({ npub, pubkey: toHexPubkey(npub, 'npub'), keyFile: path, encrypted: !!passphrase }, () => {
+        log(chalk.hex('#D4A574')('  🔑 Generated a new Nostr keypair'));
+        log(chalk.gray(`  Saved to: ${path}${passphrase ? ' (encrypted)' : ''}`));
+        log(chalk.gray(`  npub: ${npub}`));
+        if (options.qr) qrcode.generate(npub, { small: true }, (qr: string) => { log(qr); });
+      });
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-// ==================== CLAIM ====================
-
-program
-  .command('claim <name>')
-  .description('Claim a NIP-05 name (name@agentdex.id)')
-  .option('--nsec <nsec>', 'Nostr secret key')
+keys
+  .command('show')
+  .description('Show the public key for the active key file')
   .option('--key-file <path>', 'Path to JSON key file')
-  .option('--nwc <uri>', 'Nostr Wallet Connect URI for auto-pay')
-  .option('--api-key <key>', 'Agentdex API key')
-  .option('--lightning <addr>', 'Lightning address (lud16) to set in kind 0 profile')
-  .option('--skip-kind0', 'Skip publishing kind 0 profile to relays')
-  .option('--relay <url>', 'Additional relay', (val: string, acc: string[]) => [...acc, val], [])
-  .option('--json', 'Output JSON')
-  .action(async (name: string, options) => {
+  .option('--nsec <nsec>', 'Nostr secret key (nsec, ncryptsec or hex)')
+  .option('--qr', 'Print a QR code of the npub')
+  .option('--reveal-secret', 'Also print the nsec (careful!)')
+  .action(async (options) => {
     try {
-      const sk = resolveKey(options);
-      const client = new AgentdexClient({ apiKey: options.apiKey });
-
-      const spinner = ora(`Claiming ${name}@agentdex.id...`).start();
-
-      // Sign a kind 31339 event for claim authentication
-      const event = createProfileEvent(sk, {
-        name,
-        status: 'active',
+      const keyFile = options.nsec ? undefined : resolveKeyFilePath(options);
+      const encrypted = keyFile && existsSync(keyFile) ? isEncryptedKeyFile(keyFile) : undefined;
+
+      // Encrypted key files store the pubkey in the clear, so no passphrase is needed unless revealing
+      let pubkey: string;
+      let sk: Uint8Array | undefined;
+      if (encrypted && !options.revealSecret && keyFile) {
+        pubkey = JSON.parse(readFileSync(keyFile, 'utf-8')).pk_hex;
+      } else {
+        sk = await resolveKey(options);
+        pubkey = getPubkeyHex(sk);
+      }
+      const npub = nip19.npubEncode(pubkey);
+
+      const data = {
+        npub,
+        pubkey,
+        keyFile: keyFile ?? null,
+        encrypted: encrypted ?? null,
+        ...(options.revealSecret && sk ? { nsec: nip19.nsecEncode(sk) } : {}),
+      };
+      emit(data, () => {
+        log(chalk.gray(`  npub: ${npub}`));
+        log(chalk.gray(`  hex:  ${pubkey}`));
+        if (keyFile) log(chalk.gray(`  file: ${keyFile}${encrypted ? ' (encrypted)' : encrypted === false ? chalk.yellow(' (plaintext)') : ''}`));
+        if (options.revealSecret && sk) log(chalk.yellow(`  nsec: ${nip19.nsecEncode(sk)}`));
+        if (options.qr) qrcode.generate(npub, { small: true }, (qr: string) => { log(qr); });
       });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      const claim = await client.claim(name, event);
-
-      // Free/successful claim
-      if (claim.claimed) {
-        spinner.succeed(`${chalk.hex('#D4A574')(`${claim.nip05}`)} is now active!`);
-
-        // Auto-publish kind 0 to relays so Nostr clients verify the NIP-05
-        if (!options.skipKind0) {
-          const k0Spinner = ora('Publishing kind 0 profile to Nostr relays...').start();
-          try {
-            const relays = ['wss://nos.lol', 'wss://relay.damus.io', ...(options.relay || [])];
-            const kind0 = await buildKind0Event(sk, {
-              name: claim.agent?.name || name,
-              about: claim.agent?.description || undefined,
-              picture: claim.agent?.avatarUrl || undefined,
-              nip05: `${name}@agentdex.id`,
-              lud16: options.lightning || undefined,
-            }, relays);
-            const published = await publishToRelays(kind0, relays);
-            k0Spinner.succeed(`Kind 0 published to ${published.join(', ')}`);
-            console.log(chalk.gray('  NIP-05 will appear on njump/Damus/Primal once relays propagate (~30s)'));
-          } catch {
-            k0Spinner.warn('Kind 0 publish failed. Publish manually:');
-            console.log(chalk.gray(`  kind 0 content: {"name":"...","nip05":"${name}@agentdex.id"}`));
-          }
-        } else {
-          console.log('');
-          console.log(chalk.yellow('  ⚠ Skipped kind 0 publish. For NIP-05 to show on Nostr clients:'));
-          console.log(chalk.gray(`  Publish kind 0 with: "nip05": "${name}@agentdex.id"`));
-        }
+keys
+  .command('encrypt')
+  .description('Encrypt a plaintext key file with a passphrase (NIP-49 ncryptsec)')
+  .option('--key-file <path>', 'Path to JSON key file')
+  .option('--out <path>', 'Write the encrypted file here instead of replacing the original')
+  .action(async (options) => {
+    try {
+      const path = resolveKeyFilePath(options);
+      if (isEncryptedKeyFile(path)) throw new Error(`${path} is already encrypted.`);
+      const sk = readKeyFile(path);
+      const passphrase = await getPassphrase(true);
+      const out = saveKeyFile(options.out || path, sk, passphrase);
+      emit({ keyFile: out, encrypted: true }, () => {
+        log(chalk.gray(`  Encrypted key written to ${out}`));
+        if (options.out) log(chalk.yellow(`  ⚠ The plaintext key is still in ${path}. Delete it once you've checked the new file.`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-        if (options.json) {
-          console.log(JSON.stringify(claim, null, 2));
-        }
-        return;
+keys
+  .command('decrypt')
+  .description('Decrypt an encrypted key file back to plaintext')
+  .option('--key-file <path>', 'Path to JSON key file')
+  .option('--out <path>', 'Write the plaintext file here instead of replacing the original')
+  .option('--yes', 'Skip confirmation')
+  .action(async (options) => {
+    try {
+      const path = resolveKeyFilePath(options);
+      if (!isEncryptedKeyFile(path)) throw new Error(`${path} is not encrypted.`);
+      const sk = readKeyFile(path, await getPassphrase());
+      if (!options.yes) {
+        const { ok } = await prompt([{ type: 'confirm', name: 'ok', default: false, message: 'Write the secret key to disk in plaintext?' }]);
+        if (!ok) return;
       }
+      const out = saveKeyFile(options.out || path, sk);
+      emit({ keyFile: out, encrypted: false }, () => log(chalk.yellow(`  Plaintext key written to ${out}`)));
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      // Payment required (402)
-      if (claim.status === 'awaiting_payment' && claim.invoice) {
-        spinner.stop();
-        console.log('');
-        console.log(chalk.hex('#D4A574')(`  💰 Claim ${name}@agentdex.id for ${claim.amount_sats?.toLocaleString()} sats`));
-        console.log('');
-
-        const nwcUri = options.nwc || process.env.NWC_URL;
-
-        if (nwcUri) {
-          const paySpinner = ora('Paying invoice via NWC...').start();
-          try {
-            await payInvoice(nwcUri, claim.invoice);
-            paySpinner.succeed('Invoice paid!');
-          } catch (payErr) {
-            paySpinner.fail(`NWC payment failed: ${(payErr as Error).message}`);
-            console.log('');
-            console.log(chalk.gray('  Pay manually:'));
-            qrcode.generate(claim.invoice, { small: true }, (qr: string) => { console.log(qr); });
-            console.log(chalk.gray(`  bolt11: ${claim.invoice}`));
-            console.log('');
-          }
+keys
+  .command('export')
+  .description('Export the key as npub, ncryptsec, nsec or hex')
+  .option('--key-file <path>', 'Path to JSON key file')
+  .option('--nsec <nsec>', 'Nostr secret key (nsec, ncryptsec or hex)')
+  .option('--encoding <encoding>', 'npub, ncryptsec, nsec or hex (default: ncryptsec)')
+  .option('--reveal-secret', 'Required to export nsec or hex')
+  .option('--qr', 'Print as a QR code')
+  .action(async (options) => {
+    try {
+      // Deprecated: --format used to select the encoding (the preAction hook warns)
+      const { format } = program.opts();
+      const encoding: string = options.encoding || (KEY_ENCODINGS.includes(format) ? format : 'ncryptsec');
+      const sk = await resolveKey(options);
+      let value: string;
+      switch (encoding) {
+        case 'npub':
+          value = getNpub(sk);
+          break;
+        case 'ncryptsec':
+          value = encryptSecretKey(sk, await getPassphrase(true));
+          break;
+        case 'nsec':
+        case 'hex':
+          if (!options.revealSecret) throw new Error(`Exporting ${encoding} prints your secret key. Pass --reveal-secret to confirm.`);
+          value = encoding === 'nsec' ? nip19.nsecEncode(sk) : Buffer.from(sk).toString('hex');
+          break;
+        default:
+          throw new Error(`Unknown encoding "${encoding}". Use npub, ncryptsec, nsec or hex.`);
+      }
+      emit({ encoding, value }, () => {
+        if (options.qr) {
+          qrcode.generate(value, { small: true }, (qr: string) => { log(qr); });
         } else {
-          qrcode.generate(claim.invoice, { small: true }, (qr: string) => { console.log(qr); });
-          console.log(chalk.gray(`  bolt11: ${claim.invoice}`));
-          console.log('');
-        }
-
-        // Poll for payment
-        const pollSpinner = ora('Waiting for payment...').start();
-        const startTime = Date.now();
-        const timeout = 15 * 60 * 1000;
-
-        while (Date.now() - startTime < timeout) {
-          await new Promise((r) => setTimeout(r, 3000));
-          const status = await client.claimStatus(claim.payment_hash!);
-          if (status.paid) {
-            pollSpinner.succeed(`${chalk.hex('#D4A574')(`${name}@agentdex.id`)} is now active!`);
-
-            // Auto-publish kind 0 after payment
-            if (!options.skipKind0) {
-              const k0Spinner = ora('Publishing kind 0 profile to Nostr relays...').start();
-              try {
-                const relays = ['wss://nos.lol', 'wss://relay.damus.io', ...(options.relay || [])];
-                const kind0 = await buildKind0Event(sk, { name, nip05: `${name}@agentdex.id` }, relays);
-                await publishToRelays(kind0, relays);
-                k0Spinner.succeed('Kind 0 published — NIP-05 active on all Nostr clients');
-              } catch {
-                k0Spinner.warn('Kind 0 publish failed — publish manually');
-              }
-            }
-            return;
-          }
+          log(value);
         }
-
-        pollSpinner.fail('Payment timeout (15 min). Invoice expired.');
-        process.exit(1);
-      }
+      });
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-// ==================== VERIFY ====================
-
-program
-  .command('verify <npub>')
-  .description('Check if an agent is registered on agentdex')
-  .option('--json', 'Output JSON')
-  .action(async (npub: string, options) => {
-    try {
-      const client = new AgentdexClient();
-      const spinner = ora('Verifying...').start();
+// ==================== CACHE ====================
+
+/** `cache stats` */
+interface CacheStatsOutput {
+  path: string;
+  sizeBytes: number;
+  entries: number;
+  fresh: number;
+  stale: number;
+  byEndpoint: Record<string, number>;
+  oldest: string | null;
+  newest: string | null;
+}
 
-      const result = await client.verify(npub);
+const cache = program
+  .command('cache')
+  .description('Inspect or clear the local cache of directory lookups');
 
-      if (options.json) {
-        spinner.stop();
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+cache
+  .command('stats')
+  .description('Show what the cache holds')
+  .action(async () => {
+    try {
+      const path = join(configDir(), 'cache.json');
+      const stats = (await createClient().cacheStats())!;
+      const output: CacheStatsOutput = {
+        path,
+        sizeBytes: existsSync(path) ? statSync(path).size : 0,
+        entries: stats.entries,
+        fresh: stats.fresh,
+        stale: stats.stale,
+        byEndpoint: stats.byEndpoint,
+        oldest: stats.oldest !== null ? new Date(stats.oldest).toISOString() : null,
+        newest: stats.newest !== null ? new Date(stats.newest).toISOString() : null,
+      };
+      emit(output, () => {
+        log(chalk.gray(`  ${output.path} (${output.sizeBytes.toLocaleString()} bytes)`));
+        log(`  ${output.entries} entries: ${chalk.green(`${output.fresh} fresh`)}, ${chalk.yellow(`${output.stale} stale`)}`);
+        log(chalk.gray(`  verify ${stats.byEndpoint.verify} · search ${stats.byEndpoint.search} · nip05 ${stats.byEndpoint.nip05}`));
+        if (output.oldest) log(chalk.gray(`  Oldest: ${output.oldest}  Newest: ${output.newest}`));
+      });
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      if (result.registered) {
-        spinner.succeed('Registered on agentdex');
-        console.log(chalk.gray(`  Name: ${result.name}`));
-        console.log(chalk.gray(`  Trust Score: ${result.trustScore}`));
-        console.log(chalk.gray(`  Capabilities: ${result.capabilities.join(', ') || 'none'}`));
-        console.log(chalk.gray(`  Nostr: ${result.hasNostr ? '✅' : '❌'}  Agentdex: ${result.hasAgentdex ? '✅' : '❌'}`));
-      } else {
-        spinner.warn('Not registered on agentdex');
-      }
+cache
+  .command('clear')
+  .description('Delete every cached response')
+  .action(async () => {
+    try {
+      await createClient().clearCache();
+      emit({ cleared: true }, () => log(chalk.gray('  Cache cleared.')));
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-// ==================== SEARCH ====================
+// ==================== DEV SERVER ====================
+
+/** `dev-server` */
+interface DevServerOutput {
+  url: string;
+  relayUrl: string;
+  registerPriceSats: number;
+  claimPriceSats: number;
+}
 
 program
-  .command('search [query]')
-  .description('Search the agentdex directory')
-  .option('--capability <cap>', 'Filter by capability')
-  .option('--framework <fw>', 'Filter by framework')
-  .option('--min-trust <score>', 'Minimum trust score')
-  .option('--limit <n>', 'Max results', '10')
-  .option('--json', 'Output JSON')
-  .action(async (query: string | undefined, options) => {
+  .command('dev-server')
+  .description('Run an in-memory agentdex API and relay for offline testing')
+  .option('--port <port>', 'Port for the API and relay (default 8787, 0 for any free port)', '8787')
+  .option('--host <host>', 'Interface to listen on (default 127.0.0.1)', '127.0.0.1')
+  .option('--register-price <sats>', 'Charge new registrations with a simulated 402 invoice (default 0: free)', '0')
+  .option('--claim-price <sats>', 'Charge NIP-05 claims with a simulated 402 invoice (default 0: free)', '0')
+  .option('--auto-pay <seconds>', 'Mark invoices paid after this many seconds (default: only on request)')
+  .option('--trust <score>', 'Trust score new agents start with (default 50)', '50')
+  .action(async (options) => {
     try {
-      const client = new AgentdexClient();
-      const spinner = ora('Searching...').start();
-
-      const agents = await client.search({
-        q: query,
-        capability: options.capability,
-        framework: options.framework,
-        limit: parseInt(options.limit),
-      }) as any[];
+      const number = (value: string, flag: string) => {
+        const n = Number(value);
+        if (!Number.isFinite(n) || n < 0) throw new Error(`${flag} must be a non-negative number`);
+        return n;
+      };
+      const registerPriceSats = number(options.registerPrice, '--register-price');
+      const claimPriceSats = number(options.claimPrice, '--claim-price');
+      const server = new DevServer({
+        port: number(options.port, '--port'),
+        host: options.host,
+        registerPriceSats,
+        claimPriceSats,
+        autoPayMs: options.autoPay !== undefined ? number(options.autoPay, '--auto-pay') * 1000 : undefined,
+        trustScore: number(options.trust, '--trust'),
+        log: (line) => {
+          if (outputFormat === 'table') log(chalk.gray(`  ${new Date().toISOString()}  ${line}`));
+        },
+      });
+      const { url, relayUrl } = await server.start();
+      const output: DevServerOutput = { url, relayUrl, registerPriceSats, claimPriceSats };
+
+      emit(output, () => {
+        log(chalk.hex('#D4A574')(`  agentdex dev server on ${url} (relay ${relayUrl})`));
+        log('');
+        log(chalk.gray('  Point the CLI at it:'));
+        log(`    export AGENTDEX_URL=${url}`);
+        log(`    agentdex register --relay ${relayUrl} ...`);
+        if (output.registerPriceSats > 0 || output.claimPriceSats > 0) {
+          log('');
+          log(chalk.gray(options.autoPay !== undefined
+            ? `  Invoices are marked paid after ${options.autoPay}s. To pay one sooner:`
+            : '  Invoices stay pending until paid:'));
+          log(`    curl -X POST ${url}/_dev/invoices/<payment_hash>/pay`);
+        }
+        log('');
+        log(chalk.gray('  State is in memory only. Ctrl-C to stop.'));
+      });
 
-      spinner.stop();
+      const shutdown = async () => {
+        await server.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      if (options.json) {
-        console.log(JSON.stringify(agents, null, 2));
-        return;
-      }
+// ==================== CONFIG ====================
 
-      if (agents.length === 0) {
-        console.log(chalk.gray('No agents found.'));
-        return;
-      }
+const config = program
+  .command('config')
+  .description('Manage named identities (key file, relays, API key, NWC, base URL)');
 
-      for (const agent of agents) {
-        const trust = agent.trustScore ? chalk.hex('#D4A574')(`[${agent.trustScore}]`) : '';
-        console.log(`${chalk.white(agent.name)} ${trust} ${chalk.gray(agent.npub?.substring(0, 20) + '...')}`);
-        if (agent.description) console.log(chalk.gray(`  ${agent.description.substring(0, 80)}`));
-        if (agent.capabilities?.length) console.log(chalk.gray(`  ${agent.capabilities.join(', ')}`));
-        console.log('');
+config
+  .command('set <key> <value>')
+  .description(`Set a value on the active identity (${IDENTITY_KEYS.join(', ')})`)
+  .action((key: string, value: string) => {
+    try {
+      const cfg = loadConfig();
+      const name = activeIdentityName(cfg, program.opts().profile) || 'default';
+      const field = normalizeIdentityKey(key);
+      const identity = cfg.identities[name] || {};
+      if (field === 'relays') {
+        identity.relays = value.split(',').map((s) => s.trim()).filter(Boolean);
+      } else if (field === 'maxSats' || field === 'budgetSats') {
+        const sats = Number(value);
+        if (!Number.isInteger(sats) || sats < 0) throw new Error(`${field} must be a whole number of sats`);
+        identity[field] = sats;
+      } else if (field === 'budgetPeriod') {
+        if (!BUDGET_PERIODS.includes(value as BudgetPeriod)) throw new Error(`budgetPeriod must be one of: ${BUDGET_PERIODS.join(', ')}`);
+        identity.budgetPeriod = value as BudgetPeriod;
+      } else {
+        identity[field] = value;
       }
-
-      console.log(chalk.gray(`${agents.length} agents found`));
+      cfg.identities[name] = identity;
+      if (!cfg.current) cfg.current = name;
+      saveConfig(cfg);
+      emit({ identity: name, key: field, updated: true }, () => log(chalk.gray(`  ${name}.${field} updated`)));
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-// ==================== WHOAMI ====================
-
-program
-  .command('whoami')
-  .description('Show your agent profile')
-  .option('--nsec <nsec>', 'Nostr secret key')
-  .option('--key-file <path>', 'Path to JSON key file')
-  .action(async (options) => {
+config
+  .command('unset <key>')
+  .description('Remove a value from the active identity')
+  .action((key: string) => {
     try {
-      const sk = resolveKey(options);
-      const npub = getNpub(sk);
-      const client = new AgentdexClient();
+      const cfg = loadConfig();
+      const name = activeIdentityName(cfg, program.opts().profile);
+      const field = normalizeIdentityKey(key);
+      if (!name || !cfg.identities[name]) throw new Error('No active identity.');
+      delete cfg.identities[name][field];
+      saveConfig(cfg);
+      emit({ identity: name, key: field, removed: true }, () => log(chalk.gray(`  ${name}.${field} removed`)));
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      const spinner = ora('Looking up...').start();
-      const result = await client.verify(npub);
-      spinner.stop();
+config
+  .command('get <key>')
+  .description('Print a value from the active identity')
+  .action((key: string) => {
+    try {
+      const field = normalizeIdentityKey(key);
+      const value = currentIdentity()[field];
+      if (value === undefined) process.exit(1);
+      emit({ key: field, value }, () => log(Array.isArray(value) ? value.join(',') : value));
+    } catch (err) {
+      exitWithError(err);
+    }
+  });
 
-      if (result.registered) {
-        console.log(chalk.hex('#D4A574')(`  ${result.name}`));
-        console.log(chalk.gray(`  ${npub}`));
-        console.log(chalk.gray(`  Trust: ${result.trustScore}`));
-        console.log(chalk.gray(`  Nostr: ${result.hasNostr ? '✅' : '❌'}  Agentdex: ${result.hasAgentdex ? '✅' : '❌'}`));
-        console.log(chalk.gray(`  Capabilities: ${result.capabilities.join(', ') || 'none'}`));
-      } else {
-        console.log(chalk.yellow('  Not registered on agentdex yet.'));
-        console.log(chalk.gray(`  npub: ${npub}`));
-        console.log(chalk.gray(`  Run: agentdex register`));
-      }
+config
+  .command('list')
+  .description('List configured identities')
+  .action(() => {
+    try {
+      const cfg = loadConfig();
+      const active = activeIdentityName(cfg, program.opts().profile);
+      const mask = (identity: IdentityConfig) => {
+        const masked: Record<string, unknown> = { ...identity };
+        for (const key of SECRET_KEYS) {
+          if (typeof masked[key] === 'string') masked[key] = `${(masked[key] as string).slice(0, 8)}…`;
+        }
+        return masked;
+      };
+
+      const identities = Object.fromEntries(Object.entries(cfg.identities).map(([n, i]) => [n, mask(i)]));
+      const rows = Object.entries(identities).map(([name, identity]) => ({ name, active: name === active, ...identity }));
+      emit({ path: configPath(), current: active ?? null, identities }, () => {
+        const names = Object.keys(cfg.identities);
+        if (names.length === 0) {
+          log(chalk.gray(`  No identities configured. Run: agentdex config set key-file <path>`));
+          return;
+        }
+        for (const name of names) {
+          const marker = name === active ? chalk.hex('#D4A574')('*') : ' ';
+          log(`${marker} ${chalk.white(name)}`);
+          for (const [key, value] of Object.entries(identities[name])) {
+            log(chalk.gray(`    ${key}: ${Array.isArray(value) ? value.join(', ') : value}`));
+          }
+        }
+        log('');
+        log(chalk.gray(`  ${configPath()}`));
+      }, { rows, columns: ['name', 'active', ...IDENTITY_KEYS] });
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-// ==================== PUBLISH ====================
+// ==================== USE ====================
 
 program
-  .command('publish <message>')
-  .description('Publish a note tagged #agentdex')
-  .option('--nsec <nsec>', 'Nostr secret key')
-  .option('--key-file <path>', 'Path to JSON key file')
-  .option('--relay <url>', 'Additional relay', (val: string, acc: string[]) => [...acc, val], [])
-  .action(async (message: string, options) => {
+  .command('use <identity>')
+  .description('Switch the default identity')
+  .option('--create', 'Create the identity if it does not exist')
+  .action((name: string, options) => {
     try {
-      const sk = resolveKey(options);
-      const spinner = ora('Publishing...').start();
-
-      const event = createNote(sk, message);
-      const relays = ['wss://nos.lol', 'wss://relay.damus.io', ...options.relay];
-      const published = await publishToRelays(event, relays);
-
-      spinner.succeed('Published!');
-      console.log(chalk.gray(`  Published to: ${published.join(', ')}`));
-      console.log(chalk.gray(`  Event ID: ${(event as any).id}`));
+      const cfg = loadConfig();
+      if (!cfg.identities[name]) {
+        if (!options.create) throw new Error(`Unknown identity "${name}". Use --create to add it.`);
+        cfg.identities[name] = {};
+      }
+      cfg.current = name;
+      saveConfig(cfg);
+      emit({ current: name }, () => log(chalk.gray(`  Now using identity ${chalk.white(name)}`)));
     } catch (err) {
-      console.error(chalk.red(`Error: ${(err as Error).message}`));
-      process.exit(1);
+      exitWithError(err);
     }
   });
 
-program.parse();
+await program.parseAsync();
+
+// Remote signers keep relay subscriptions open; close them so the process can exit
+await closeSigners();
@@ -2,9 +2,87 @@
  * AgentdexClient — SDK for interacting with the agentdex API
  */
 
+import { createProfileEvent, type AgentProfile } from './nostr.js';
+import type { SignerInput } from './signer.js';
+import { fetchNip05, parseNip05 } from './nip05.js';
+import { toHexPubkey } from './validate.js';
+import { TrustGate, type GateOptions, type GateDecision } from './gate.js';
+import { ResponseCache, type CacheOptions, type CacheEntry, type CacheEndpoint, type CacheStats } from './cache.js';
+import { completePayment, waitForPayment, type PendingPayment, type PaymentFlowOptions, type PaymentFlowResult, type PaymentKind } from './payments.js';
+
+/**
+ * Error thrown by every AgentdexClient method when the API responds with
+ * a non-success status or a body that isn't valid JSON
+ */
+export class AgentdexApiError extends Error {
+  /** HTTP status code (0 if no response was received) */
+  readonly status: number;
+  /** Machine-readable error code from the API body, if any */
+  readonly code?: string;
+  /** Request path, e.g. /api/v1/agents/claim */
+  readonly path: string;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter?: number;
+  /** Parsed response body, if any */
+  readonly body?: unknown;
+
+  constructor(message: string, init: { status: number; path: string; code?: string; retryAfter?: number; body?: unknown }) {
+    super(message);
+    this.name = 'AgentdexApiError';
+    this.status = init.status;
+    this.code = init.code;
+    this.path = init.path;
+    this.retryAfter = init.retryAfter;
+    this.body = init.body;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  return undefined;
+}
+
 export interface AgentdexConfig {
   baseUrl?: string;
   apiKey?: string;
+  /** Default per-attempt timeout in ms (default 15000) */
+  timeoutMs?: number;
+  /** Default number of retries after the first attempt (default 2) */
+  retries?: number;
+  /** Base delay for exponential backoff in ms (default 500) */
+  retryDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default 10000) */
+  maxRetryDelayMs?: number;
+  /**
+   * Longest server Retry-After waited out before retrying, in ms (default
+   * 60000). Longer waits fail at once with the wait in `retryAfter`.
+   */
+  maxRetryAfterMs?: number;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /**
+   * Cache for verify, search and NIP-05 lookups (default: off). `true`
+   * caches in memory with DEFAULT_CACHE_TTLS.
+   */
+  cache?: CacheOptions | boolean;
+}
+
+/**
+ * Per-call options accepted by every public AgentdexClient method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** `false` skips the response cache and asks the directory */
+  cache?: boolean;
 }
 
 export interface RegisterOptions {
@@ -34,6 +112,36 @@ export interface VerifyResult {
   messagingPolicy: string | null;
 }
 
+export interface VerifyManyOptions extends RequestOptions {
+  /** Targets verified in parallel when the directory has no batch endpoint (default 5) */
+  concurrency?: number;
+  /** Called as each target finishes, in completion order */
+  onResult?: (result: VerifyManyResult) => void;
+}
+
+export interface VerifyManyResult {
+  /** The target as given: npub, hex pubkey or name@domain */
+  target: string;
+  /** Hex pubkey, null if the target couldn't be resolved */
+  pubkey: string | null;
+  result: VerifyResult | null;
+  /** Why the target couldn't be verified, null if it was */
+  error: string | null;
+}
+
+/** Pubkeys per request to the batch verify endpoint */
+const VERIFY_BATCH_SIZE = 100;
+
+/** Domain of the NIP-05 names the directory hands out (name@agentdex.id) */
+export const AGENTDEX_NIP05_DOMAIN = 'agentdex.id';
+
+export interface Nip05Record {
+  /** Hex pubkey the name points at, or null if it isn't registered */
+  pubkey: string | null;
+  /** Relay hints published for the pubkey */
+  relays: string[];
+}
+
 export interface ClaimResult {
   // Free/successful claim
   claimed?: boolean;
@@ -50,6 +158,7 @@ export interface ClaimResult {
 
 export interface ClaimStatus {
   paid: boolean;
+  status?: string;
   name?: string;
   nip05?: string;
 }
@@ -62,15 +171,93 @@ export interface SearchOptions {
   sourceFilter?: string;
   sort?: string;
   limit?: number;
+  /** 1-based page number */
+  page?: number;
+  offset?: number;
+  /** Opaque cursor from a previous SearchPage.nextCursor */
+  cursor?: string;
+  /** Minimum trust score; also applied client-side in case the server ignores it */
+  minTrust?: number;
+}
+
+export interface AgentSummary {
+  name: string;
+  npub: string;
+  pubkey?: string;
+  description?: string;
+  trustScore?: number;
+  capabilities?: string[];
+  framework?: string;
+  model?: string;
+  status?: string;
+  source?: string;
+  nip05?: string | null;
+  avatarUrl?: string | null;
+  [key: string]: unknown;
+}
+
+export interface SearchPage {
+  agents: AgentSummary[];
+  /** Every agent the server returned, before the client-side minTrust filter */
+  raw: AgentSummary[];
+  /** Cursor for the next page, if the server supports cursors */
+  nextCursor?: string;
+  /** Total matches, if the server reports it */
+  total?: number;
+  /** Whether another page is likely available */
+  hasMore: boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run `fn` over every item with at most `limit` calls in flight
+ */
+async function forEachLimit<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
 }
 
 export class AgentdexClient {
   private baseUrl: string;
   private apiKey?: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private maxRetryAfterMs: number;
+  private fetchImpl: typeof fetch;
+  private trustGate?: TrustGate;
+  private cache?: ResponseCache;
+  /** Unix time (ms) until which requests hold off after a 429 */
+  private pausedUntil = 0;
+  /** Whether the directory has a batch verify endpoint; undefined until tried */
+  private batchVerify?: boolean;
 
   constructor(config: AgentdexConfig = {}) {
     this.baseUrl = (config.baseUrl || process.env.AGENTDEX_URL || 'https://agentdex.id').replace(/\/$/, '');
     this.apiKey = config.apiKey || process.env.AGENTDEX_API_KEY;
+    this.timeoutMs = config.timeoutMs ?? 15000;
+    this.retries = config.retries ?? 2;
+    this.retryDelayMs = config.retryDelayMs ?? 500;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 10000;
+    this.maxRetryAfterMs = config.maxRetryAfterMs ?? 60000;
+    this.fetchImpl = config.fetch || ((input, init) => fetch(input, init));
+    if (config.cache) this.cache = new ResponseCache(config.cache === true ? {} : config.cache);
   }
 
   private async fetch(path: string, options: RequestInit = {}): Promise<Response> {
@@ -81,58 +268,385 @@ export class AgentdexClient {
     if (this.apiKey) {
       headers['Authorization'] = `Bearer ${this.apiKey}`;
     }
-    return fetch(`${this.baseUrl}${path}`, { ...options, headers });
+    return this.fetchImpl(`${this.baseUrl}${path}`, { ...options, headers });
   }
 
-  async verify(pubkeyOrNpub: string): Promise<VerifyResult> {
-    const param = pubkeyOrNpub.startsWith('npub') ? 'npub' : 'pubkey';
-    const res = await this.fetch(`/api/v1/agents/verify?${param}=${encodeURIComponent(pubkeyOrNpub)}`);
-    return res.json();
+  /**
+   * Exponential backoff with jitter, or the server's Retry-After if given
+   */
+  private backoff(attempt: number, retryAfter?: number): number {
+    if (retryAfter !== undefined) return retryAfter * 1000;
+    const exp = Math.min(this.maxRetryDelayMs, this.retryDelayMs * 2 ** attempt);
+    return exp / 2 + Math.random() * (exp / 2);
   }
 
-  async register(event: object): Promise<any> {
-    const res = await this.fetch('/api/v1/agents/register', {
-      method: 'POST',
-      body: JSON.stringify({ event }),
+  /**
+   * Perform a request through the cache. Fresh responses come from the cache;
+   * stale ones too while they revalidate in the background. Offline, only
+   * the cache answers and every other request fails.
+   */
+  private async request<T>(path: string, init: RequestInit = {}, opts: RequestOptions = {}, allowPaymentRequired = false): Promise<T> {
+    const cache = opts.cache === false ? undefined : this.cache;
+    if (!cache) return (await this.send<T>(path, init, opts, allowPaymentRequired)).body;
+    const endpoint = !init.method || init.method === 'GET' ? cache.endpointOf(path) : null;
+    const key = `${this.baseUrl}${path}`;
+    const entry = endpoint ? await cache.store.get(key) : undefined;
+
+    if (entry && (cache.offline || Date.now() < entry.expiresAt)) return cache.served<T>(path, entry);
+    if (cache.offline) {
+      throw new AgentdexApiError(`Offline, and ${path} is not in the cache`, { status: 0, path, code: 'offline' });
+    }
+    if (!endpoint) return (await this.send<T>(path, init, opts, allowPaymentRequired)).body;
+    if (entry && Date.now() < entry.staleUntil) {
+      this.revalidate(key, path, endpoint, entry, { ...opts, retries: 0 }).catch(() => {});
+      return cache.served<T>(path, entry, true);
+    }
+    try {
+      return await this.revalidate<T>(key, path, endpoint, entry, opts);
+    } catch (err) {
+      // Better an old answer than none when the directory can't be reached
+      if (entry && err instanceof AgentdexApiError && err.status === 0 && !opts.signal?.aborted) return cache.served<T>(path, entry);
+      throw err;
+    }
+  }
+
+  /**
+   * Fetch a cacheable response, as a conditional request if the cached copy has an ETag
+   */
+  private async revalidate<T>(key: string, path: string, endpoint: CacheEndpoint, entry: CacheEntry | undefined, opts: RequestOptions): Promise<T> {
+    const res = await this.send<T>(path, entry?.etag ? { headers: { 'If-None-Match': entry.etag } } : {}, opts);
+    if (res.status === 304 && entry) {
+      await this.cache!.put(key, endpoint, entry.body, res.headers, entry.etag);
+      return structuredClone(entry.body) as T;
+    }
+    await this.cache!.put(key, endpoint, res.body, res.headers);
+    return res.body;
+  }
+
+  /**
+   * Perform a request and parse the JSON body, throwing AgentdexApiError on
+   * failure. 402 is passed through when the caller handles payment itself,
+   * and 304 when the request was conditional.
+   *
+   * GETs are retried on network errors, timeouts, 429 and 5xx. Other methods
+   * are only retried on 429, since the server did not process the request.
+   */
+  private async send<T>(path: string, init: RequestInit = {}, opts: RequestOptions = {}, allowPaymentRequired = false): Promise<{ body: T; status: number; headers: Headers }> {
+    const idempotent = !init.method || init.method === 'GET';
+    const retries = opts.retries ?? this.retries;
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      const paused = this.pausedUntil - Date.now();
+      if (paused > 0) await sleep(paused, opts.signal);
+      try {
+        return await this.attempt<T>(path, init, timeoutMs, opts.signal, allowPaymentRequired);
+      } catch (err) {
+        if (opts.signal?.aborted) throw opts.signal.reason;
+        if (!(err instanceof AgentdexApiError)) throw err;
+
+        const delay = this.backoff(attempt, err.retryAfter);
+        const maxDelay = err.retryAfter !== undefined ? this.maxRetryAfterMs : this.maxRetryDelayMs;
+        // A 429 holds back every request from this client, not just this one
+        if (err.status === 429 && delay <= maxDelay) this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        if (attempt >= retries) throw err;
+
+        const retryable = err.status === 429 || (idempotent && (err.status === 0 || err.status >= 500));
+        if (!retryable || delay > maxDelay) throw err;
+        await sleep(delay, opts.signal);
+      }
+    }
+  }
+
+  private async attempt<T>(path: string, init: RequestInit, timeoutMs: number, signal: AbortSignal | undefined, allowPaymentRequired: boolean): Promise<{ body: T; status: number; headers: Headers }> {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    let res: Response;
+    let text: string;
+    try {
+      res = await this.fetch(path, { ...init, signal: combined });
+      text = await res.text();
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      if (timeoutSignal.aborted) {
+        throw new AgentdexApiError(`Request timed out after ${timeoutMs}ms`, { status: 0, path, code: 'timeout' });
+      }
+      throw new AgentdexApiError(`Request failed: ${(err as Error).message}`, { status: 0, path, code: 'network_error' });
+    }
+
+    if (res.status === 304) return { body: undefined as T, status: 304, headers: res.headers };
+
+    let body: any;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    if (!res.ok && !(allowPaymentRequired && res.status === 402)) {
+      const message = body?.error || body?.message || `HTTP ${res.status} ${res.statusText}`.trim();
+      const retryAfter = parseRetryAfter(res.headers.get('retry-after'));
+      throw new AgentdexApiError(retryAfter !== undefined ? `${message} (retry after ${retryAfter}s)` : message, {
+        status: res.status,
+        path,
+        code: typeof body?.code === 'string' ? body.code : undefined,
+        retryAfter,
+        body,
+      });
+    }
+
+    if (body === undefined) {
+      throw new AgentdexApiError(`Invalid JSON response from ${path}`, { status: res.status, path });
+    }
+    return { body: body as T, status: res.status, headers: res.headers };
+  }
+
+  /**
+   * Check an agent's registration and trust score. Accepts an npub, a hex
+   * pubkey or a NIP-05 identifier (name@domain).
+   */
+  async verify(target: string, opts: RequestOptions = {}): Promise<VerifyResult> {
+    const pubkey = await this.resolvePubkey(target, opts);
+    // An npub is sent as given, as before NIP-05 targets were accepted
+    const query = target.trim().startsWith('npub') ? `npub=${encodeURIComponent(target.trim())}` : `pubkey=${pubkey}`;
+    return this.request<VerifyResult>(`/api/v1/agents/verify?${query}`, {}, opts);
+  }
+
+  /**
+   * Verify many targets. Uses the directory's batch endpoint when it has one,
+   * otherwise verifies them one by one with bounded concurrency. A target
+   * that can't be resolved or verified gets an `error` instead of failing the
+   * whole call. Results are in the order of `targets`.
+   */
+  async verifyMany(targets: string[], options: VerifyManyOptions = {}): Promise<VerifyManyResult[]> {
+    const { concurrency = 5, onResult, ...opts } = options;
+    const results: VerifyManyResult[] = targets.map((target) => ({ target, pubkey: null, result: null, error: null }));
+    const fail = (entry: VerifyManyResult, err: unknown) => {
+      if (opts.signal?.aborted) throw opts.signal.reason;
+      entry.error = (err as Error).message;
+    };
+
+    await forEachLimit(results, concurrency, async (entry) => {
+      try {
+        entry.pubkey = await this.resolvePubkey(entry.target, opts);
+      } catch (err) {
+        fail(entry, err);
+        onResult?.(entry);
+      }
+    });
+    let pending = results.filter((entry) => entry.pubkey);
+
+    while (pending.length > 1 && this.batchVerify !== false && !this.cache?.offline) {
+      const chunk = pending.slice(0, VERIFY_BATCH_SIZE);
+      try {
+        const body = await this.request<{ results?: Record<string, VerifyResult> }>('/api/v1/agents/verify/batch', {
+          method: 'POST',
+          body: JSON.stringify({ pubkeys: [...new Set(chunk.map((entry) => entry.pubkey!))] }),
+        }, opts);
+        this.batchVerify = true;
+        for (const entry of chunk) {
+          entry.result = body.results?.[entry.pubkey!] ?? null;
+          if (!entry.result) entry.error = 'Missing from the batch verify response';
+        }
+      } catch (err) {
+        if (this.batchVerify === undefined && err instanceof AgentdexApiError && [404, 405, 501].includes(err.status)) {
+          this.batchVerify = false;
+          break;
+        }
+        for (const entry of chunk) fail(entry, err);
+      }
+      chunk.forEach((entry) => onResult?.(entry));
+      pending = pending.slice(chunk.length);
+    }
+
+    await forEachLimit(pending, concurrency, async (entry) => {
+      try {
+        entry.result = await this.request<VerifyResult>(`/api/v1/agents/verify?pubkey=${entry.pubkey}`, {}, opts);
+      } catch (err) {
+        fail(entry, err);
+      }
+      onResult?.(entry);
     });
-    if (!res.ok && res.status !== 402) {
-      const err = await res.json();
-      throw new Error(err.error || 'Registration failed');
+    return results;
+  }
+
+  /**
+   * Hex pubkey for an npub, a hex pubkey or a NIP-05 identifier. Names on the
+   * directory's domain are looked up through this client's base URL; other
+   * domains through their own /.well-known/nostr.json.
+   */
+  async resolvePubkey(target: string, opts: RequestOptions = {}): Promise<string> {
+    if (!target.includes('@')) return toHexPubkey(target.trim(), 'pubkey');
+    const { name, domain } = parseNip05(target.trim());
+    const record = domain === AGENTDEX_NIP05_DOMAIN
+      ? await this.lookupNip05(name, opts)
+      : await fetchNip05(target, { fetch: this.fetchImpl, signal: opts.signal, timeoutMs: opts.timeoutMs ?? this.timeoutMs });
+    if (!record.pubkey) throw new Error(`${target} does not resolve to a pubkey`);
+    return record.pubkey;
+  }
+
+  /**
+   * Decide whether to serve another agent: check the deny and allow lists,
+   * the directory's registration and trust score, and a NIP-05 confirmed
+   * against the domain's own nostr.json. Verdicts are cached for
+   * `options.ttlMs` (default five minutes).
+   *
+   * ```ts
+   * const decision = await client.gate(pubkey, { minTrust: 30, requireNip05: 'agentdex.id' });
+   * if (!decision.allowed) console.log(decision.reasons);
+   * ```
+   */
+  async gate(pubkeyOrNpub: string, options: GateOptions = {}): Promise<GateDecision> {
+    this.trustGate ??= new TrustGate(this);
+    return this.trustGate.check(pubkeyOrNpub, options);
+  }
+
+  /**
+   * Forget cached gate verdicts for one pubkey, or all of them
+   */
+  clearGateCache(pubkeyOrNpub?: string): void {
+    this.trustGate?.clear(pubkeyOrNpub);
+  }
+
+  /**
+   * Drop every cached response. Registering and claiming do this themselves.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.store.clear();
+  }
+
+  /**
+   * What the response cache holds, or null if caching is off
+   */
+  async cacheStats(): Promise<CacheStats | null> {
+    return this.cache ? this.cache.stats() : null;
+  }
+
+  /**
+   * Look up name@<directory domain> in the directory's /.well-known/nostr.json.
+   * Returns a null pubkey if the name isn't registered.
+   */
+  async lookupNip05(name: string, opts: RequestOptions = {}): Promise<Nip05Record> {
+    let data: { names?: Record<string, string>; relays?: Record<string, string[]> };
+    try {
+      data = await this.request(`/.well-known/nostr.json?name=${encodeURIComponent(name)}`, {}, opts);
+    } catch (err) {
+      if (err instanceof AgentdexApiError && err.status === 404) return { pubkey: null, relays: [] };
+      throw err;
     }
-    return res.json();
+    const pubkey = data.names?.[name] ?? null;
+    return { pubkey, relays: pubkey ? data.relays?.[pubkey] ?? [] : [] };
   }
 
-  async registerStatus(paymentHash: string): Promise<{ paid: boolean; status?: string; agent?: object }> {
-    const res = await this.fetch(`/api/v1/agents/register/status?payment_hash=${encodeURIComponent(paymentHash)}`);
-    const data = await res.json();
+  async register(event: object, opts: RequestOptions = {}): Promise<any> {
+    const result = await this.request<any>('/api/v1/agents/register', {
+      method: 'POST',
+      body: JSON.stringify({ event }),
+    }, opts, true);
+    await this.clearCache();
+    return result;
+  }
+
+  async registerStatus(paymentHash: string, opts: RequestOptions = {}): Promise<{ paid: boolean; status?: string; agent?: object }> {
+    const data = await this.request<any>(`/api/v1/agents/register/status?payment_hash=${encodeURIComponent(paymentHash)}`, {}, opts);
     // API returns { status: "paid" | "completed" | "pending" | "expired" }
     // Normalize to { paid: true/false } for CLI consumption
     data.paid = data.status === 'paid' || data.status === 'completed';
+    if (data.paid) await this.clearCache();
     return data;
   }
 
-  async claim(name: string, event: object): Promise<ClaimResult> {
-    const res = await this.fetch('/api/v1/agents/claim', {
+  async claim(name: string, event: object, opts: RequestOptions = {}): Promise<ClaimResult> {
+    const result = await this.request<ClaimResult>('/api/v1/agents/claim', {
       method: 'POST',
       body: JSON.stringify({ name, event }),
-    });
-    if (!res.ok && res.status !== 402) {
-      const err = await res.json();
-      throw new Error(err.error || 'Claim failed');
-    }
-    return res.json();
+    }, opts, true);
+    await this.clearCache();
+    return result;
+  }
+
+  /**
+   * Sign a kind 31339 profile with a key or Signer and register it
+   */
+  async registerProfile(signer: SignerInput, profile: AgentProfile, opts: RequestOptions = {}) {
+    const event = await createProfileEvent(signer, profile);
+    const result = await this.register(event, opts);
+    return { event, result };
+  }
+
+  /**
+   * Sign a claim authentication event with a key or Signer and claim name@agentdex.id
+   */
+  async claimName(name: string, signer: SignerInput, opts: RequestOptions = {}) {
+    const event = await createProfileEvent(signer, { name, status: 'active' });
+    const result = await this.claim(name, event, opts);
+    return { event, result };
   }
 
-  async claimStatus(paymentHash: string): Promise<ClaimStatus> {
-    const res = await this.fetch(`/api/v1/agents/claim/status?payment_hash=${encodeURIComponent(paymentHash)}`);
-    const data = await res.json();
+  /**
+   * Register an event, paying the registration invoice if the API asks for one
+   */
+  async registerWithPayment(event: object, options: PaymentFlowOptions = {}): Promise<PaymentFlowResult<any>> {
+    const response = await this.register(event, { signal: options.signal });
+    if (response.status !== 'awaiting_payment' || !response.invoice) return { response };
+
+    const payment = this.pendingPayment('register', response, event);
+    await completePayment(payment, (hash, signal) => this.registerStatus(hash, { signal }), options);
+    return { response, payment };
+  }
+
+  /**
+   * Claim name@agentdex.id, paying the claim invoice if the API asks for one
+   */
+  async claimWithPayment(name: string, event: object, options: PaymentFlowOptions = {}): Promise<PaymentFlowResult<ClaimResult>> {
+    const response = await this.claim(name, event, { signal: options.signal });
+    if (response.claimed || response.status !== 'awaiting_payment' || !response.invoice) return { response };
+
+    const payment = this.pendingPayment('claim', response, event, name);
+    await completePayment(payment, (hash, signal) => this.claimStatus(hash, { signal }), options);
+    return { response, payment };
+  }
+
+  /**
+   * Resume polling a previously persisted invoice until it is paid
+   */
+  async resumePayment(payment: PendingPayment, options: PaymentFlowOptions = {}): Promise<void> {
+    const check = payment.kind === 'claim'
+      ? (hash: string, signal?: AbortSignal) => this.claimStatus(hash, { signal })
+      : (hash: string, signal?: AbortSignal) => this.registerStatus(hash, { signal });
+    await waitForPayment(payment, check, options);
+  }
+
+  private pendingPayment(kind: PaymentKind, response: ClaimResult, event: object, name?: string): PendingPayment {
+    return {
+      kind,
+      paymentHash: response.payment_hash!,
+      invoice: response.invoice!,
+      amountSats: response.amount_sats,
+      expiresAt: response.expires_at,
+      pubkey: (event as { pubkey?: string }).pubkey || '',
+      name,
+      baseUrl: this.baseUrl,
+      event,
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  async claimStatus(paymentHash: string, opts: RequestOptions = {}): Promise<ClaimStatus> {
+    const data = await this.request<any>(`/api/v1/agents/claim/status?payment_hash=${encodeURIComponent(paymentHash)}`, {}, opts);
     // API returns { status: "paid" | "completed" | "pending" | "expired" }
     // Normalize to { paid: true/false } for CLI consumption
     data.paid = data.status === 'paid' || data.status === 'completed';
+    if (data.paid) await this.clearCache();
     return data;
   }
 
-  async search(options: SearchOptions = {}): Promise<object[]> {
+  /**
+   * Fetch one page of search results. Accepts both the plain array response
+   * and a paginated { agents, next_cursor, total } envelope.
+   */
+  async searchPage(options: SearchOptions = {}, opts: RequestOptions = {}): Promise<SearchPage> {
     const params = new URLSearchParams();
     if (options.q) params.set('q', options.q);
     if (options.capability) params.set('capability', options.capability);
@@ -141,7 +655,57 @@ export class AgentdexClient {
     if (options.sourceFilter) params.set('source_filter', options.sourceFilter);
     if (options.sort) params.set('sort', options.sort);
     if (options.limit) params.set('limit', String(options.limit));
-    const res = await this.fetch(`/api/v1/agents?${params}`);
-    return res.json();
+    if (options.page) params.set('page', String(options.page));
+    if (options.offset) params.set('offset', String(options.offset));
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.minTrust !== undefined) params.set('min_trust', String(options.minTrust));
+
+    const data = await this.request<any>(`/api/v1/agents?${params}`, {}, opts);
+    const raw: AgentSummary[] = Array.isArray(data) ? data : (data.agents || data.results || data.data || []);
+    const nextCursor: string | undefined = Array.isArray(data) ? undefined : (data.next_cursor ?? data.nextCursor ?? undefined);
+    const total: number | undefined = Array.isArray(data) ? undefined : data.total;
+
+    const agents = options.minTrust !== undefined
+      ? raw.filter((agent) => (agent.trustScore ?? 0) >= options.minTrust!)
+      : raw;
+
+    const hasMore = nextCursor !== undefined || (options.limit !== undefined && raw.length >= options.limit);
+    return { agents, raw, nextCursor, total, hasMore };
+  }
+
+  async search(options: SearchOptions = {}, opts: RequestOptions = {}): Promise<AgentSummary[]> {
+    return (await this.searchPage(options, opts)).agents;
+  }
+
+  /**
+   * Iterate over every matching agent, following cursors (or offsets when the
+   * server doesn't return one) until the results run out
+   */
+  async *searchAll(options: SearchOptions = {}, opts: RequestOptions = {}): AsyncGenerator<AgentSummary> {
+    const limit = options.limit || 50;
+    let cursor = options.cursor;
+    let offset = options.offset || 0;
+
+    // Guards against servers that ignore offset/cursor and keep returning page one
+    const seen = new Set<string>();
+
+    while (true) {
+      const page = await this.searchPage({ ...options, limit, cursor, offset: cursor ? undefined : offset }, opts);
+      // Judged on the unfiltered page: minTrust can empty a page that still moves the results on
+      const kept = new Set(page.agents);
+      let fresh = 0;
+      for (const agent of page.raw) {
+        if (seen.has(agent.npub)) continue;
+        seen.add(agent.npub);
+        fresh++;
+        if (kept.has(agent)) yield agent;
+      }
+      if (!page.hasMore || fresh === 0) return;
+      if (page.nextCursor) {
+        cursor = page.nextCursor;
+      } else {
+        offset += limit;
+      }
+    }
   }
 }
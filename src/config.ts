@@ -0,0 +1,99 @@
+/**
+ * CLI config — named identities stored in ~/.config/agentdex/config.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BudgetPeriod } from './spending.js';
+
+export interface IdentityConfig {
+  keyFile?: string;
+  bunker?: string;
+  relays?: string[];
+  apiKey?: string;
+  nwc?: string;
+  baseUrl?: string;
+  /** Largest single invoice auto-paid over NWC */
+  maxSats?: number;
+  /** Total sats auto-paid per budgetPeriod */
+  budgetSats?: number;
+  budgetPeriod?: BudgetPeriod;
+}
+
+export interface CliConfig {
+  current?: string;
+  identities: Record<string, IdentityConfig>;
+}
+
+export const IDENTITY_KEYS: (keyof IdentityConfig)[] = ['keyFile', 'bunker', 'relays', 'apiKey', 'nwc', 'baseUrl', 'maxSats', 'budgetSats', 'budgetPeriod'];
+
+/** Keys whose values are masked in `config list` */
+export const SECRET_KEYS: (keyof IdentityConfig)[] = ['bunker', 'apiKey', 'nwc'];
+
+/**
+ * Directory holding the CLI config and any other local state
+ */
+export function configDir(): string {
+  if (process.env.AGENTDEX_CONFIG_DIR) return process.env.AGENTDEX_CONFIG_DIR;
+  const base = process.env.XDG_CONFIG_HOME || `${process.env.HOME}/.config`;
+  return join(base, 'agentdex');
+}
+
+export function configPath(): string {
+  return join(configDir(), 'config.json');
+}
+
+/**
+ * Load the config file, returning an empty config if it doesn't exist
+ */
+export function loadConfig(path = configPath()): CliConfig {
+  if (!existsSync(path)) return { identities: {} };
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    return { current: data.current, identities: data.identities || {} };
+  } catch (err) {
+    throw new Error(`Could not parse config file ${path}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Write the config file (mode 600, since it may hold API keys and NWC URIs)
+ */
+export function saveConfig(config: CliConfig, path = configPath()): void {
+  const dir = path.substring(0, path.lastIndexOf('/'));
+  if (dir) mkdirSync(dir, { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Normalize a user-supplied key (key-file, key_file, keyFile) to an IdentityConfig key
+ */
+export function normalizeIdentityKey(key: string): keyof IdentityConfig {
+  const camel = key.replace(/[-_]([a-z])/g, (_, c: string) => c.toUpperCase());
+  const match = IDENTITY_KEYS.find((k) => k.toLowerCase() === camel.toLowerCase());
+  if (!match) throw new Error(`Unknown config key "${key}". Valid keys: ${IDENTITY_KEYS.join(', ')}`);
+  return match;
+}
+
+/**
+ * Name of the identity to use: explicit --profile, then AGENTDEX_PROFILE, then the config's current
+ */
+export function activeIdentityName(config: CliConfig, explicit?: string): string | undefined {
+  return explicit || process.env.AGENTDEX_PROFILE || config.current;
+}
+
+/**
+ * Look up the active identity. Throws if a name was given explicitly but doesn't exist.
+ */
+export function resolveIdentity(config: CliConfig, explicit?: string): IdentityConfig {
+  const name = activeIdentityName(config, explicit);
+  if (!name) return {};
+  const identity = config.identities[name];
+  if (!identity) {
+    if (explicit || process.env.AGENTDEX_PROFILE) {
+      throw new Error(`Unknown identity "${name}". Run \`agentdex config list\` to see configured identities.`);
+    }
+    return {};
+  }
+  return identity;
+}
@@ -0,0 +1,226 @@
+/**
+ * In-memory Nostr relay (NIP-01) for local testing — bundled with the dev server
+ */
+
+import { createHash } from 'crypto';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { verifyEvent, type Event } from 'nostr-tools/pure';
+import { matchFilter, type Filter } from 'nostr-tools/filter';
+import { isReplaceableKind, isAddressableKind, isEphemeralKind } from 'nostr-tools/kinds';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Just enough of RFC 6455 for a relay: text frames (fragmented or not), ping and close
+ */
+class WebSocketConnection {
+  private socket: Duplex;
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(socket: Duplex, onMessage: (text: string) => void, onClose: () => void) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      for (let frame = this.readFrame(); frame; frame = this.readFrame()) {
+        if (frame.opcode === 0x8) {
+          this.close();
+          return;
+        }
+        if (frame.opcode === 0x9) this.write(0xa, frame.payload);
+        if (frame.opcode !== 0x1 && frame.opcode !== 0x0) continue;
+        this.fragments.push(frame.payload);
+        if (!frame.fin) continue;
+        const text = Buffer.concat(this.fragments).toString('utf-8');
+        this.fragments = [];
+        onMessage(text);
+      }
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      onClose();
+    });
+    socket.on('error', () => socket.destroy());
+  }
+
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    const buf = this.buffer;
+    if (buf.length < 2) return null;
+    let length = buf[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buf.length < 4) return null;
+      length = buf.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buf.length < 10) return null;
+      length = Number(buf.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const masked = (buf[1] & 0x80) !== 0;
+    const start = offset + (masked ? 4 : 0);
+    if (buf.length < start + length) return null;
+
+    const payload = Buffer.from(buf.subarray(start, start + length));
+    if (masked) {
+      const mask = buf.subarray(offset, offset + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    this.buffer = buf.subarray(start + length);
+    return { fin: (buf[0] & 0x80) !== 0, opcode: buf[0] & 0x0f, payload };
+  }
+
+  private write(opcode: number, payload: Buffer): void {
+    if (this.closed) return;
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  send(message: unknown[]): void {
+    this.write(0x1, Buffer.from(JSON.stringify(message)));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.write(0x8, Buffer.alloc(0));
+    this.closed = true;
+    this.socket.end();
+  }
+}
+
+/**
+ * Key an event is stored under: replaceable and addressable events replace
+ * older versions with the same key
+ */
+function storageKey(event: Event): string {
+  if (isReplaceableKind(event.kind)) return `${event.kind}:${event.pubkey}`;
+  if (isAddressableKind(event.kind)) return `${event.kind}:${event.pubkey}:${event.tags.find((t) => t[0] === 'd')?.[1] ?? ''}`;
+  return event.id;
+}
+
+/**
+ * Stores events in memory and serves REQ subscriptions, live ones included.
+ * Signatures are checked; nothing else is (no auth, no rate limits).
+ */
+export class DevRelay {
+  private events = new Map<string, Event>();
+  private connections = new Map<WebSocketConnection, Map<string, Filter[]>>();
+
+  /**
+   * Store an event and deliver it to matching subscriptions. Returns the
+   * relay's OK response.
+   */
+  add(event: Event): { ok: boolean; message: string } {
+    let valid = false;
+    try {
+      valid = verifyEvent(event);
+    } catch {}
+    if (!valid) return { ok: false, message: 'invalid: bad signature or id' };
+
+    const key = storageKey(event);
+    const existing = this.events.get(key);
+    if (existing?.id === event.id) return { ok: true, message: 'duplicate: already have this event' };
+    if (existing && (existing.created_at > event.created_at || (existing.created_at === event.created_at && existing.id < event.id))) {
+      return { ok: true, message: 'duplicate: have a newer version' };
+    }
+    if (!isEphemeralKind(event.kind)) this.events.set(key, event);
+
+    for (const [connection, subscriptions] of this.connections) {
+      for (const [id, filters] of subscriptions) {
+        if (filters.some((filter) => matchFilter(filter, event))) connection.send(['EVENT', id, event]);
+      }
+    }
+    return { ok: true, message: '' };
+  }
+
+  /**
+   * Stored events matching any filter, newest first, each filter's `limit` applied
+   */
+  query(filters: Filter[]): Event[] {
+    const all = [...this.events.values()].sort((a, b) => b.created_at - a.created_at);
+    const found = new Map<string, Event>();
+    for (const filter of filters) {
+      const matches = all.filter((event) => matchFilter(filter, event));
+      for (const event of filter.limit !== undefined ? matches.slice(0, filter.limit) : matches) found.set(event.id, event);
+    }
+    return [...found.values()].sort((a, b) => b.created_at - a.created_at);
+  }
+
+  /** Number of stored events */
+  get size(): number {
+    return this.events.size;
+  }
+
+  /** Drop every stored event */
+  clear(): void {
+    this.events.clear();
+  }
+
+  /**
+   * Accept WebSocket upgrades on an HTTP server, on any path
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+      const key = req.headers['sec-websocket-key'];
+      if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+      }
+      const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+      socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+      const subscriptions = new Map<string, Filter[]>();
+      const connection: WebSocketConnection = new WebSocketConnection(socket, (text) => this.handle(connection, subscriptions, text), () => {
+        this.connections.delete(connection);
+      });
+      this.connections.set(connection, subscriptions);
+    });
+  }
+
+  /** Close every open connection */
+  close(): void {
+    for (const connection of this.connections.keys()) connection.close();
+    this.connections.clear();
+  }
+
+  private handle(connection: WebSocketConnection, subscriptions: Map<string, Filter[]>, text: string): void {
+    let message: unknown[];
+    try {
+      message = JSON.parse(text);
+      if (!Array.isArray(message)) throw new Error();
+    } catch {
+      connection.send(['NOTICE', 'invalid: message is not a JSON array']);
+      return;
+    }
+
+    const [type, ...args] = message;
+    if (type === 'EVENT') {
+      const event = args[0] as Event;
+      const { ok, message: reason } = this.add(event);
+      connection.send(['OK', event?.id ?? '', ok, reason]);
+    } else if (type === 'REQ') {
+      const [id, ...filters] = args as [string, ...Filter[]];
+      subscriptions.set(id, filters);
+      for (const event of this.query(filters)) connection.send(['EVENT', id, event]);
+      connection.send(['EOSE', id]);
+    } else if (type === 'CLOSE') {
+      subscriptions.delete(args[0] as string);
+    } else {
+      connection.send(['NOTICE', `unsupported: ${String(type)}`]);
+    }
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Dev server — an in-memory stand-in for the agentdex API with a bundled
+ * relay, so the register → claim → verify flow runs without agentdex.id or
+ * public relays (CI, local development)
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { bech32 } from '@scure/base';
+import { nip19 } from 'nostr-tools';
+import { verifyEvent, type Event } from 'nostr-tools/pure';
+import { parseProfileEvent, type AgentProfile } from './nostr.js';
+import { AGENTDEX_NIP05_DOMAIN, type AgentSummary, type VerifyResult } from './client.js';
+import { nip05NameProblem, toHexPubkey } from './validate.js';
+import { DevRelay } from './devrelay.js';
+
+export interface DevServerOptions {
+  /** Port to listen on (default 8787); 0 picks a free one */
+  port?: number;
+  /** Interface to listen on (default 127.0.0.1) */
+  host?: string;
+  /** Above 0, new registrations get a 402 invoice for this many sats (default 0: free) */
+  registerPriceSats?: number;
+  /** Above 0, NIP-05 claims get a 402 invoice for this many sats (default 0: free) */
+  claimPriceSats?: number;
+  /**
+   * Mark invoices paid this many ms after they are issued. Without it they
+   * stay pending until pay() or POST /_dev/invoices/<paymentHash>/pay.
+   */
+  autoPayMs?: number;
+  /** Trust score newly registered agents start with (default 50) */
+  trustScore?: number;
+  /** Called with one line per request */
+  log?: (line: string) => void;
+}
+
+export interface DevAgent {
+  pubkey: string;
+  profile: AgentProfile;
+  /** The kind 31339 event it registered with */
+  event: Event;
+  /** Claimed name@agentdex.id, if any */
+  nip05Name: string | null;
+  trustScore: number;
+  /** Unix time (ms) */
+  registeredAt: number;
+}
+
+export interface DevInvoice {
+  kind: 'register' | 'claim';
+  paymentHash: string;
+  /** sha256 preimage of paymentHash, as a wallet would return it */
+  preimage: string;
+  invoice: string;
+  amountSats: number;
+  status: 'pending' | 'paid' | 'expired';
+  /** Unix time (ms) */
+  expiresAt: number;
+  event: Event;
+  /** Name being claimed (claim only) */
+  name?: string;
+}
+
+const AGENT_PROFILE_KIND = 31339;
+const INVOICE_EXPIRY_SECONDS = 900;
+const MAX_BODY_BYTES = 1_000_000;
+
+/**
+ * A regtest bolt11 invoice with a real payment hash, enough for the CLI's
+ * local invoice checks. The signature is zeroed: no wallet will pay it.
+ */
+function mintInvoice(amountSats: number, paymentHash: Buffer, description: string): string {
+  const toWords = (n: number, count: number) => Array.from({ length: count }, (_, i) => Math.floor(n / 32 ** (count - 1 - i)) % 32);
+  const field = (type: number, words: number[]) => [type, ...toWords(words.length, 2), ...words];
+  const words = [
+    ...toWords(Math.floor(Date.now() / 1000), 7),
+    ...field(1, bech32.toWords(paymentHash)),
+    ...field(13, bech32.toWords(Buffer.from(description, 'utf-8'))),
+    ...field(6, toWords(INVOICE_EXPIRY_SECONDS, 2)),
+    ...new Array(104).fill(0),
+  ];
+  return bech32.encode(`lnbcrt${amountSats * 10}n`, words, false);
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+}
+
+/**
+ * Check a signed kind 31339 event from a request body
+ */
+function checkProfileEvent(event: unknown): Event {
+  if (!event || typeof event !== 'object') throw new HttpError(400, 'Missing event');
+  let valid = false;
+  try {
+    valid = verifyEvent(event as Event);
+  } catch {}
+  if (!valid) throw new HttpError(400, 'Invalid event signature');
+  if ((event as Event).kind !== AGENT_PROFILE_KIND) throw new HttpError(400, `Expected a kind ${AGENT_PROFILE_KIND} event`);
+  return event as Event;
+}
+
+/**
+ * The agentdex API endpoints the SDK and CLI use, backed by memory, plus the
+ * relay on the same port (ws://). Start it, point AGENTDEX_URL at `url` and
+ * add `relayUrl` as a relay.
+ *
+ * ```ts
+ * const server = new DevServer({ port: 0, claimPriceSats: 5000 });
+ * const { url, relayUrl } = await server.start();
+ * const client = new AgentdexClient({ baseUrl: url });
+ * ```
+ */
+export class DevServer {
+  readonly relay = new DevRelay();
+  readonly agents = new Map<string, DevAgent>();
+  readonly invoices = new Map<string, DevInvoice>();
+  private server: Server;
+  private options: DevServerOptions;
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(options: DevServerOptions = {}) {
+    this.options = options;
+    this.server = createServer((req, res) => {
+      res.on('finish', () => this.options.log?.(`${req.method} ${req.url} ${res.statusCode}`));
+      this.route(req, res).catch((err) => {
+        const status = err instanceof HttpError ? err.status : 500;
+        this.send(res, status, { error: (err as Error).message });
+      });
+    });
+    this.relay.attach(this.server);
+  }
+
+  async start(): Promise<{ url: string; relayUrl: string }> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 8787, this.options.host ?? '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return { url: this.url, relayUrl: this.relayUrl };
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.relay.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Base URL of the API, e.g. http://127.0.0.1:8787 */
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+  }
+
+  /** URL of the bundled relay, e.g. ws://127.0.0.1:8787 */
+  get relayUrl(): string {
+    return this.url.replace(/^http/, 'ws');
+  }
+
+  /**
+   * Mark a pending invoice paid, completing its registration or claim
+   */
+  pay(paymentHash: string): DevInvoice {
+    const invoice = this.invoice(paymentHash);
+    if (invoice.status === 'expired') throw new HttpError(409, `Invoice ${paymentHash} has expired`);
+    if (invoice.status === 'paid') return invoice;
+    if (invoice.kind === 'claim') {
+      this.assignName(invoice.event.pubkey, invoice.name!);
+    } else {
+      this.registerAgent(invoice.event);
+    }
+    invoice.status = 'paid';
+    return invoice;
+  }
+
+  /** Set an agent's trust score, e.g. to exercise a gate */
+  setTrustScore(pubkeyOrNpub: string, trustScore: number): void {
+    const agent = this.agents.get(this.toHex(pubkeyOrNpub));
+    if (!agent) throw new HttpError(404, `${pubkeyOrNpub} is not registered`);
+    agent.trustScore = trustScore;
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname.replace(/\/$/, '') || '/'}`;
+    const param = (name: string) => url.searchParams.get(name) || undefined;
+
+    switch (route) {
+      case 'GET /api/v1/agents/verify':
+        return this.send(res, 200, this.verify(param('pubkey') || param('npub') || ''));
+      case 'GET /api/v1/agents':
+        return this.send(res, 200, this.search(url.searchParams));
+      case 'POST /api/v1/agents/register':
+        return this.register(res, await readJson(req));
+      case 'POST /api/v1/agents/claim':
+        return this.claim(res, await readJson(req));
+      case 'GET /api/v1/agents/register/status':
+      case 'GET /api/v1/agents/claim/status': {
+        const invoice = this.invoice(param('payment_hash') || '');
+        return this.send(res, 200, {
+          status: invoice.status,
+          ...(invoice.kind === 'claim' ? { name: invoice.name, nip05: `${invoice.name}@${AGENTDEX_NIP05_DOMAIN}` } : {}),
+        });
+      }
+      case 'GET /.well-known/nostr.json':
+        return this.send(res, 200, this.nostrJson(param('name')));
+      case 'GET /_dev/invoices':
+        return this.send(res, 200, [...this.invoices.values()].map(({ event, ...invoice }) => invoice));
+    }
+
+    const pay = /^POST \/_dev\/invoices\/([0-9a-f]{64})\/pay$/.exec(route);
+    if (pay) {
+      const { event, ...invoice } = this.pay(pay[1]);
+      return this.send(res, 200, invoice);
+    }
+    const trust = /^POST \/_dev\/agents\/([^/]+)\/trust$/.exec(route);
+    if (trust) {
+      const { trustScore } = await readJson(req);
+      if (typeof trustScore !== 'number') throw new HttpError(400, 'trustScore must be a number');
+      this.setTrustScore(trust[1], trustScore);
+      return this.send(res, 200, { pubkey: this.toHex(trust[1]), trustScore });
+    }
+    throw new HttpError(404, `No route for ${route}`);
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+  }
+
+  private toHex(pubkeyOrNpub: string): string {
+    try {
+      return toHexPubkey(pubkeyOrNpub, 'pubkey');
+    } catch (err) {
+      throw new HttpError(400, (err as Error).message);
+    }
+  }
+
+  private invoice(paymentHash: string): DevInvoice {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice) throw new HttpError(404, `No invoice with payment hash ${paymentHash}`);
+    if (invoice.status === 'pending' && Date.now() > invoice.expiresAt) invoice.status = 'expired';
+    return invoice;
+  }
+
+  private issueInvoice(res: ServerResponse, kind: DevInvoice['kind'], amountSats: number, event: Event, name?: string): void {
+    const preimage = randomBytes(32);
+    const paymentHash = createHash('sha256').update(preimage).digest();
+    const invoice: DevInvoice = {
+      kind,
+      paymentHash: paymentHash.toString('hex'),
+      preimage: preimage.toString('hex'),
+      invoice: mintInvoice(amountSats, paymentHash, kind === 'claim' ? `agentdex claim ${name}` : 'agentdex registration'),
+      amountSats,
+      status: 'pending',
+      expiresAt: Date.now() + INVOICE_EXPIRY_SECONDS * 1000,
+      event,
+      name,
+    };
+    this.invoices.set(invoice.paymentHash, invoice);
+
+    if (this.options.autoPayMs !== undefined) {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        try {
+          this.pay(invoice.paymentHash);
+        } catch (err) {
+          this.options.log?.(`auto-pay ${invoice.paymentHash} failed: ${(err as Error).message}`);
+        }
+      }, this.options.autoPayMs);
+      this.timers.add(timer);
+    }
+
+    this.send(res, 402, {
+      status: 'awaiting_payment',
+      invoice: invoice.invoice,
+      payment_hash: invoice.paymentHash,
+      amount_sats: amountSats,
+      expires_at: new Date(invoice.expiresAt).toISOString(),
+    });
+  }
+
+  private registerAgent(event: Event): DevAgent {
+    const existing = this.agents.get(event.pubkey);
+    const agent: DevAgent = {
+      pubkey: event.pubkey,
+      profile: parseProfileEvent(event),
+      event,
+      nip05Name: existing?.nip05Name ?? null,
+      trustScore: existing?.trustScore ?? this.options.trustScore ?? 50,
+      registeredAt: existing?.registeredAt ?? Date.now(),
+    };
+    this.agents.set(event.pubkey, agent);
+    return agent;
+  }
+
+  private assignName(pubkey: string, name: string): void {
+    const holder = [...this.agents.values()].find((agent) => agent.nip05Name === name);
+    if (holder && holder.pubkey !== pubkey) throw new HttpError(409, `${name}@${AGENTDEX_NIP05_DOMAIN} is already taken`);
+    const agent = this.agents.get(pubkey);
+    if (!agent) throw new HttpError(400, 'Register before claiming a name');
+    agent.nip05Name = name;
+  }
+
+  private register(res: ServerResponse, body: { event?: unknown }): void {
+    const event = checkProfileEvent(body.event);
+    const price = this.options.registerPriceSats ?? 0;
+    if (price > 0 && !this.agents.has(event.pubkey)) return this.issueInvoice(res, 'register', price, event);
+
+    const agent = this.registerAgent(event);
+    this.send(res, 200, { status: 'registered', npub: nip19.npubEncode(agent.pubkey), name: agent.profile.name ?? null });
+  }
+
+  private claim(res: ServerResponse, body: { name?: unknown; event?: unknown }): void {
+    const event = checkProfileEvent(body.event);
+    const name = typeof body.name === 'string' ? body.name : '';
+    const problem = nip05NameProblem(name);
+    if (problem) throw new HttpError(400, `Name ${problem}`);
+    const agent = this.agents.get(event.pubkey);
+    if (!agent) throw new HttpError(400, 'Register before claiming a name');
+
+    const price = this.options.claimPriceSats ?? 0;
+    if (price > 0 && agent.nip05Name !== name) {
+      const holder = [...this.agents.values()].find((a) => a.nip05Name === name);
+      if (holder) throw new HttpError(409, `${name}@${AGENTDEX_NIP05_DOMAIN} is already taken`);
+      return this.issueInvoice(res, 'claim', price, event, name);
+    }
+
+    this.assignName(event.pubkey, name);
+    this.send(res, 200, {
+      claimed: true,
+      nip05: `${name}@${AGENTDEX_NIP05_DOMAIN}`,
+      agent: { id: agent.pubkey, name: agent.profile.name ?? name, nip05Name: name, tier: 'free' },
+    });
+  }
+
+  private verify(target: string): VerifyResult {
+    const pubkey = this.toHex(target);
+    const agent = this.agents.get(pubkey);
+    return {
+      registered: !!agent,
+      hasNostr: this.relay.query([{ kinds: [0], authors: [pubkey], limit: 1 }]).length > 0,
+      hasAgentdex: !!agent,
+      trustScore: agent?.trustScore ?? 0,
+      name: agent?.profile.name ?? null,
+      npub: nip19.npubEncode(pubkey),
+      capabilities: agent?.profile.capabilities ?? [],
+      messagingPolicy: agent?.profile.messagingPolicy ?? null,
+    };
+  }
+
+  private search(params: URLSearchParams): { agents: AgentSummary[]; total: number } {
+    const q = params.get('q')?.toLowerCase();
+    const capability = params.get('capability')?.toLowerCase();
+    const framework = params.get('framework')?.toLowerCase();
+    const status = params.get('status');
+    const minTrust = Number(params.get('min_trust') || 0);
+    const limit = Math.min(Number(params.get('limit')) || 20, 100);
+    const offset = Number(params.get('offset')) || (Math.max(Number(params.get('page')) || 1, 1) - 1) * limit;
+
+    const matches = [...this.agents.values()]
+      .filter(({ profile }) => !q || [profile.name, profile.description, ...(profile.capabilities || [])].some((text) => text?.toLowerCase().includes(q)))
+      .filter(({ profile }) => !capability || profile.capabilities?.some((c) => c.toLowerCase() === capability))
+      .filter(({ profile }) => !framework || profile.framework?.toLowerCase() === framework)
+      .filter(({ profile }) => !status || profile.status === status)
+      .filter((agent) => agent.trustScore >= minTrust)
+      .sort((a, b) => params.get('sort') === 'recent' ? b.registeredAt - a.registeredAt : b.trustScore - a.trustScore);
+
+    const agents = matches.slice(offset, offset + limit).map(({ pubkey, profile, trustScore, nip05Name }) => ({
+      name: profile.name ?? '',
+      npub: nip19.npubEncode(pubkey),
+      pubkey,
+      description: profile.description,
+      trustScore,
+      capabilities: profile.capabilities ?? [],
+      framework: profile.framework,
+      model: profile.model,
+      status: profile.status,
+      nip05: nip05Name ? `${nip05Name}@${AGENTDEX_NIP05_DOMAIN}` : null,
+    }));
+    return { agents, total: matches.length };
+  }
+
+  private nostrJson(name?: string): { names: Record<string, string>; relays: Record<string, string[]> } {
+    const named = [...this.agents.values()].filter((agent) => agent.nip05Name && (!name || agent.nip05Name === name.toLowerCase()));
+    return {
+      names: Object.fromEntries(named.map((agent) => [agent.nip05Name, agent.pubkey])),
+      relays: Object.fromEntries(named.map((agent) => [agent.pubkey, [this.relayUrl]])),
+    };
+  }
+}
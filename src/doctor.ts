@@ -0,0 +1,245 @@
+/**
+ * Doctor — compares an agent's events on each relay, its NIP-05 record and
+ * the directory's verify result, and republishes what's missing or stale
+ */
+
+import { nip19 } from 'nostr-tools';
+import type { Event } from 'nostr-tools/pure';
+import { AgentdexClient, AGENTDEX_NIP05_DOMAIN, type VerifyResult } from './client.js';
+import { fetchNewestEvent, parseProfileEvent, buildKind0Event, publishEvent, type Kind0Fields, type PublishOptions, type PublishReport } from './nostr.js';
+import type { SignerInput } from './signer.js';
+
+export type DoctorFix = 'republish-profile' | 'republish-metadata' | 'update-metadata' | 'register';
+
+export interface DoctorFinding {
+  /** Stable identifier, e.g. `profile-missing` or `nip05-mismatch` */
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Relay the finding is about, if any */
+  relay?: string;
+  /** What `fixAgent` would do about it; absent if it needs a human */
+  fix?: DoctorFix;
+}
+
+export interface RelaySnapshot {
+  relay: string;
+  /** Newest kind 31339 profile on this relay */
+  profileEvent: Event | null;
+  /** Newest kind 0 metadata on this relay */
+  metadataEvent: Event | null;
+}
+
+export interface DoctorReport {
+  pubkey: string;
+  npub: string;
+  relays: RelaySnapshot[];
+  /** Newest kind 31339 across all relays */
+  profileEvent: Event | null;
+  /** Newest kind 0 across all relays */
+  metadataEvent: Event | null;
+  /** name@agentdex.id, if the agent has one */
+  nip05: { identifier: string; pubkey: string | null } | null;
+  /** The directory's verify result, or null if it couldn't be reached */
+  directory: VerifyResult | null;
+  findings: DoctorFinding[];
+}
+
+export interface DiagnoseOptions {
+  relays: string[];
+  client?: AgentdexClient;
+  /** The agent's agentdex.id name, if it isn't in kind 0 (e.g. a claim with --skip-kind0) */
+  name?: string;
+  /** Per-relay query timeout in ms (default 5000) */
+  timeoutMs?: number;
+}
+
+const newest = (events: (Event | null)[]) =>
+  events.reduce<Event | null>((a, b) => (b && (!a || b.created_at > a.created_at) ? b : a), null);
+
+function metadataOf(event: Event | null): Record<string, unknown> {
+  if (!event) return {};
+  try {
+    return JSON.parse(event.content);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Find the agent's agentdex.id name: --name, then kind 0's nip05, then the directory's search index
+ */
+async function findNip05Name(client: AgentdexClient, npub: string, metadata: Record<string, unknown>, name?: string): Promise<string | null> {
+  if (name) return name;
+  const nip05 = typeof metadata.nip05 === 'string' ? metadata.nip05 : '';
+  if (nip05.endsWith(`@${AGENTDEX_NIP05_DOMAIN}`)) return nip05.slice(0, nip05.lastIndexOf('@'));
+  try {
+    const match = (await client.search({ q: npub, limit: 5 })).find((a) => a.npub === npub);
+    const indexed = match?.nip05 || '';
+    return indexed.endsWith(`@${AGENTDEX_NIP05_DOMAIN}`) ? indexed.slice(0, indexed.lastIndexOf('@')) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch an agent's events from every relay, resolve its NIP-05 and ask the
+ * directory, then list every inconsistency found
+ */
+export async function diagnoseAgent(pubkeyHex: string, options: DiagnoseOptions): Promise<DoctorReport> {
+  const client = options.client ?? new AgentdexClient();
+  const npub = nip19.npubEncode(pubkeyHex);
+  const findings: DoctorFinding[] = [];
+
+  const relays = await Promise.all(options.relays.map(async (relay): Promise<RelaySnapshot> => {
+    const [profileEvent, metadataEvent] = await Promise.all([
+      fetchNewestEvent([relay], { kinds: [31339], authors: [pubkeyHex], '#d': ['agentdex-profile'] }, options.timeoutMs),
+      fetchNewestEvent([relay], { kinds: [0], authors: [pubkeyHex] }, options.timeoutMs),
+    ]);
+    return { relay, profileEvent, metadataEvent };
+  }));
+  const profileEvent = newest(relays.map((r) => r.profileEvent));
+  const metadataEvent = newest(relays.map((r) => r.metadataEvent));
+
+  // Relays missing the newest events, or holding older ones
+  const coverage = (kind: 'profile' | 'metadata', latest: Event | null) => {
+    if (!latest) return;
+    const label = kind === 'profile' ? 'kind 31339 profile' : 'kind 0 metadata';
+    const fix: DoctorFix = kind === 'profile' ? 'republish-profile' : 'republish-metadata';
+    for (const snapshot of relays) {
+      const event = kind === 'profile' ? snapshot.profileEvent : snapshot.metadataEvent;
+      if (!event) {
+        findings.push({ code: `${kind}-missing`, severity: 'error', relay: snapshot.relay, message: `${label} missing (or relay unreachable)`, fix });
+      } else if (event.id !== latest.id && event.created_at < latest.created_at) {
+        findings.push({ code: `${kind}-stale`, severity: 'warning', relay: snapshot.relay, message: `${label} is older than the newest copy (${new Date(event.created_at * 1000).toISOString()})`, fix });
+      }
+    }
+  };
+  if (!profileEvent) {
+    findings.push({ code: 'profile-not-found', severity: 'error', message: 'No kind 31339 profile on any relay. Run `agentdex register`.' });
+  }
+  if (!metadataEvent) {
+    findings.push({ code: 'metadata-not-found', severity: 'error', message: 'No kind 0 metadata on any relay — standard Nostr clients will show nothing', fix: 'update-metadata' });
+  }
+  coverage('profile', profileEvent);
+  coverage('metadata', metadataEvent);
+
+  const metadata = metadataOf(metadataEvent);
+  if (metadataEvent && !metadata.lud16) {
+    findings.push({ code: 'lud16-missing', severity: 'warning', message: 'kind 0 has no lightning address (lud16) — the agent cannot be zapped' });
+  }
+
+  // NIP-05: the directory's nostr.json is the source of truth for name@agentdex.id
+  let nip05: DoctorReport['nip05'] = null;
+  const name = await findNip05Name(client, npub, metadata, options.name);
+  if (name) {
+    const identifier = `${name}@${AGENTDEX_NIP05_DOMAIN}`;
+    try {
+      const record = await client.lookupNip05(name);
+      nip05 = { identifier, pubkey: record.pubkey };
+      if (!record.pubkey) {
+        findings.push({ code: 'nip05-unresolved', severity: 'error', message: `${identifier} is not in /.well-known/nostr.json — finish the claim with \`agentdex claim --resume\`` });
+      } else if (record.pubkey !== pubkeyHex) {
+        findings.push({ code: 'nip05-mismatch', severity: 'error', message: `${identifier} points at ${nip19.npubEncode(record.pubkey)}, not this agent` });
+      } else if (metadata.nip05 !== identifier) {
+        const current = typeof metadata.nip05 === 'string' && metadata.nip05 ? `"${metadata.nip05}"` : 'nothing';
+        findings.push({ code: 'nip05-missing', severity: 'error', message: `kind 0 nip05 is ${current}, expected ${identifier}`, fix: 'update-metadata' });
+      }
+    } catch (err) {
+      findings.push({ code: 'nip05-unreachable', severity: 'warning', message: `Could not fetch /.well-known/nostr.json: ${(err as Error).message}` });
+    }
+  }
+
+  // Directory: does it know the agent, and does it agree with the newest profile?
+  let directory: VerifyResult | null = null;
+  try {
+    directory = await client.verify(npub);
+  } catch (err) {
+    findings.push({ code: 'directory-unreachable', severity: 'warning', message: `Could not verify with the directory: ${(err as Error).message}` });
+  }
+  if (directory && profileEvent) {
+    const profile = parseProfileEvent(profileEvent);
+    if (!directory.registered) {
+      findings.push({ code: 'not-registered', severity: 'error', message: 'Profile is on relays but the directory has no registration', fix: 'register' });
+    } else {
+      const drift: string[] = [];
+      if (profile.name && directory.name !== profile.name) drift.push(`name "${directory.name}" vs "${profile.name}"`);
+      const published = [...(profile.capabilities || [])].sort().join(',');
+      const listed = [...(directory.capabilities || [])].sort().join(',');
+      if (published !== listed) drift.push(`capabilities [${listed}] vs [${published}]`);
+      if (drift.length) {
+        findings.push({ code: 'directory-stale', severity: 'warning', message: `Directory differs from relays: ${drift.join('; ')}`, fix: 'register' });
+      }
+    }
+  }
+
+  return { pubkey: pubkeyHex, npub, relays, profileEvent, metadataEvent, nip05, directory, findings };
+}
+
+export interface FixOptions {
+  client?: AgentdexClient;
+  /** Needed only to re-sign kind 0 (`update-metadata`); republishing reuses the signed events */
+  signer?: SignerInput;
+  /** Lightning address to set while re-signing kind 0 */
+  lightning?: string;
+  publish?: PublishOptions;
+}
+
+export interface DoctorFixResult {
+  fix: DoctorFix;
+  ok: boolean;
+  message: string;
+  report?: PublishReport;
+}
+
+/**
+ * Apply the fixes a report calls for: republish missing or stale events to
+ * the relays lacking them, re-sign kind 0 when its nip05 is wrong, and
+ * re-submit the newest profile to the directory
+ */
+export async function fixAgent(report: DoctorReport, options: FixOptions = {}): Promise<DoctorFixResult[]> {
+  const client = options.client ?? new AgentdexClient();
+  const fixes = new Set(report.findings.map((f) => f.fix).filter((f): f is DoctorFix => !!f));
+  if (options.lightning) fixes.add('update-metadata');
+  const relaysFor = (fix: DoctorFix) => report.findings.filter((f) => f.fix === fix && f.relay).map((f) => f.relay!);
+  const allRelays = report.relays.map((r) => r.relay);
+  const results: DoctorFixResult[] = [];
+
+  if (fixes.has('republish-profile') && report.profileEvent) {
+    const published = await publishEvent(report.profileEvent, relaysFor('republish-profile'), options.publish);
+    results.push({ fix: 'republish-profile', ok: published.ok, message: `kind 31339 republished to ${published.accepted.length}/${published.results.length} relays`, report: published });
+  }
+
+  if (fixes.has('update-metadata')) {
+    if (!options.signer) {
+      results.push({ fix: 'update-metadata', ok: false, message: 'kind 0 needs re-signing, but no signer was given' });
+    } else {
+      const fields: Kind0Fields = {};
+      if (report.nip05?.pubkey === report.pubkey) fields.nip05 = report.nip05.identifier;
+      if (options.lightning) fields.lud16 = options.lightning;
+      if (!report.metadataEvent && report.profileEvent) {
+        const profile = parseProfileEvent(report.profileEvent);
+        fields.name = profile.name;
+        fields.about = profile.description;
+      }
+      const kind0 = await buildKind0Event(options.signer, fields, allRelays);
+      const published = await publishEvent(kind0, allRelays, options.publish);
+      results.push({ fix: 'update-metadata', ok: published.ok, message: `kind 0 re-signed and published to ${published.accepted.length}/${published.results.length} relays`, report: published });
+    }
+  } else if (fixes.has('republish-metadata') && report.metadataEvent) {
+    const published = await publishEvent(report.metadataEvent, relaysFor('republish-metadata'), options.publish);
+    results.push({ fix: 'republish-metadata', ok: published.ok, message: `kind 0 republished to ${published.accepted.length}/${published.results.length} relays`, report: published });
+  }
+
+  if (fixes.has('register') && report.profileEvent) {
+    try {
+      const response = await client.register(report.profileEvent);
+      const unpaid = response?.status === 'awaiting_payment';
+      results.push({ fix: 'register', ok: !unpaid, message: unpaid ? 'The directory wants a registration fee — run `agentdex register`' : 'Newest profile re-submitted to the directory' });
+    } catch (err) {
+      results.push({ fix: 'register', ok: false, message: `Directory update failed: ${(err as Error).message}` });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,131 @@
+/**
+ * Fleets — an orchestrator and the sub-agents whose kind 31339 profile names
+ * it in the `parent` tag
+ */
+
+import { nip19 } from 'nostr-tools';
+import type { Event } from 'nostr-tools/pure';
+import { fetchEvents, fetchProfileEvent, parseProfileEvent, DEFAULT_RELAYS, type AgentProfile } from './nostr.js';
+import { toHexPubkey } from './validate.js';
+
+export interface FleetMember {
+  pubkey: string;
+  npub: string;
+  profile: AgentProfile;
+  /** The member's newest kind 31339 event */
+  event: Event;
+}
+
+export interface FetchChildrenOptions {
+  /** Relays to query (default DEFAULT_RELAYS) */
+  relays?: string[];
+  /**
+   * Pubkeys known to be children, e.g. from stored keys. Their profiles are
+   * fetched directly, which also finds profiles published without the
+   * `["p", parent, "", "parent"]` tag that makes children queryable.
+   */
+  authors?: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * The agents whose newest kind 31339 profile names `parent` as their parent,
+ * sorted by name. Agents that have since moved to another parent are left out.
+ */
+export async function fetchChildren(parent: string, options: FetchChildrenOptions = {}): Promise<FleetMember[]> {
+  const parentHex = toHexPubkey(parent, 'parent');
+  const relays = options.relays || DEFAULT_RELAYS;
+  const tagged = await fetchEvents(relays, { kinds: [31339], '#p': [parentHex], '#d': ['agentdex-profile'] }, options.timeoutMs);
+  const candidates = [...new Set([...tagged.map((e) => e.pubkey), ...(options.authors || []).map((a) => toHexPubkey(a, 'authors'))])];
+  if (candidates.length === 0) return [];
+
+  // A tagged event may be an old version, so re-read every candidate's newest profile
+  const newest = new Map<string, Event>();
+  for (const event of await fetchEvents(relays, { kinds: [31339], authors: candidates, '#d': ['agentdex-profile'] }, options.timeoutMs)) {
+    const seen = newest.get(event.pubkey);
+    if (!seen || event.created_at > seen.created_at) newest.set(event.pubkey, event);
+  }
+
+  return [...newest.values()]
+    .map((event) => ({ pubkey: event.pubkey, npub: nip19.npubEncode(event.pubkey), profile: parseProfileEvent(event), event }))
+    .filter((member) => member.profile.parent === parentHex)
+    .sort((a, b) => (a.profile.name || a.npub).localeCompare(b.profile.name || b.npub, undefined, { numeric: true }));
+}
+
+export interface FleetNode {
+  pubkey: string;
+  npub: string;
+  name: string | null;
+  status: string | null;
+  children: FleetNode[];
+}
+
+export interface FetchFleetOptions extends FetchChildrenOptions {
+  /** Levels of children to follow below the root (default 1) */
+  depth?: number;
+}
+
+/**
+ * Fetch an orchestrator's fleet as a tree, following children of children up
+ * to `depth` levels. `authors` applies to the root's children only.
+ */
+export async function fetchFleet(root: string, options: FetchFleetOptions = {}): Promise<FleetNode> {
+  const rootHex = toHexPubkey(root, 'root');
+  const relays = options.relays || DEFAULT_RELAYS;
+  const rootEvent = await fetchProfileEvent(rootHex, relays);
+  const rootProfile = rootEvent ? parseProfileEvent(rootEvent) : {};
+  const node = (pubkey: string, profile: AgentProfile): FleetNode => ({
+    pubkey,
+    npub: nip19.npubEncode(pubkey),
+    name: profile.name ?? null,
+    status: profile.status ?? null,
+    children: [],
+  });
+
+  const tree = node(rootHex, rootProfile);
+  // Parent links can form a cycle; each agent appears once
+  const visited = new Set([rootHex]);
+  let level = [tree];
+  for (let depth = 0; depth < (options.depth ?? 1) && level.length > 0; depth++) {
+    const next: FleetNode[] = [];
+    for (const parent of level) {
+      const members = await fetchChildren(parent.pubkey, { ...options, relays, authors: parent === tree ? options.authors : undefined });
+      for (const member of members.filter((m) => !visited.has(m.pubkey))) {
+        visited.add(member.pubkey);
+        const child = node(member.pubkey, member.profile);
+        parent.children.push(child);
+        next.push(child);
+      }
+    }
+    level = next;
+  }
+  return tree;
+}
+
+/**
+ * Render a fleet as an indented tree, one line per agent:
+ *
+ * ```
+ * orchestrator npub1abc…
+ * ├── worker-1 npub1def… (active)
+ * │   └── helper npub1ghi… (busy)
+ * └── worker-2 npub1jkl… (retired)
+ * ```
+ */
+export function renderFleetTree(root: FleetNode, label: (node: FleetNode) => string = defaultLabel): string {
+  const lines = [label(root)];
+  const walk = (node: FleetNode, prefix: string) => {
+    node.children.forEach((child, i) => {
+      const last = i === node.children.length - 1;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label(child)}`);
+      walk(child, prefix + (last ? '    ' : '│   '));
+    });
+  };
+  walk(root, '');
+  return lines.join('\n');
+}
+
+function defaultLabel(node: FleetNode): string {
+  const npub = `${node.npub.substring(0, 12)}…`;
+  return [node.name, npub, node.status && `(${node.status})`].filter(Boolean).join(' ');
+}
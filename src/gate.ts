@@ -0,0 +1,254 @@
+/**
+ * Trust gate — decide whether to serve another agent from its directory
+ * standing and NIP-05, with cached verdicts and a NIP-98 HTTP middleware
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import * as nip98 from 'nostr-tools/nip98';
+import type { AgentdexClient, VerifyResult } from './client.js';
+import { fetchNewestEvent, DEFAULT_RELAYS } from './nostr.js';
+import { fetchNip05, parseNip05 } from './nip05.js';
+import { toHexPubkey } from './validate.js';
+
+export interface GateOptions {
+  /** Minimum directory trust score */
+  minTrust?: number;
+  /** Only agents registered on the directory */
+  requireRegistered?: boolean;
+  /**
+   * Require a NIP-05 that resolves to the pubkey. A domain (e.g. "agentdex.id")
+   * also requires the identifier to be on that domain.
+   */
+  requireNip05?: boolean | string;
+  /** Always allowed, without any other check (npub or hex) */
+  allowList?: string[];
+  /** Always denied (npub or hex); wins over allowList */
+  denyList?: string[];
+  /** The NIP-05 the caller claims; read from its kind 0 on relays otherwise */
+  nip05?: string;
+  /** Relays to read kind 0 from (default DEFAULT_RELAYS) */
+  relays?: string[];
+  /** How long a verdict is cached, in ms (default 300000); 0 disables caching */
+  ttlMs?: number;
+}
+
+export type GateReasonCode =
+  | 'allow-listed'
+  | 'deny-listed'
+  | 'not-registered'
+  | 'low-trust'
+  | 'directory-unreachable'
+  | 'nip05-missing'
+  | 'nip05-wrong-domain'
+  | 'nip05-mismatch'
+  | 'nip05-unreachable';
+
+export interface GateReason {
+  code: GateReasonCode;
+  message: string;
+}
+
+export interface GateDecision {
+  allowed: boolean;
+  pubkey: string;
+  /** Why the pubkey was denied (or `allow-listed`). Empty when every check passed. */
+  reasons: GateReason[];
+  /** The directory's verify result, null if it wasn't needed or couldn't be fetched */
+  verify: VerifyResult | null;
+  /** The NIP-05 checked, and whether its nostr.json points back at the pubkey */
+  nip05: { identifier: string; confirmed: boolean } | null;
+  /** Whether this verdict came from the cache */
+  cached: boolean;
+  /** Unix time (ms) the verdict was reached */
+  checkedAt: number;
+}
+
+const DEFAULT_TTL_MS = 300_000;
+
+/**
+ * Evaluates GateOptions against the directory and NIP-05, caching verdicts
+ * per pubkey and options. Verdicts that depended on an unreachable service
+ * are not cached. Use `client.gate()` for a gate shared by the client.
+ */
+export class TrustGate {
+  private client: AgentdexClient;
+  private cache = new Map<string, { decision: GateDecision; expiresAt: number }>();
+
+  constructor(client: AgentdexClient) {
+    this.client = client;
+  }
+
+  async check(pubkeyOrNpub: string, options: GateOptions = {}): Promise<GateDecision> {
+    const pubkey = toHexPubkey(pubkeyOrNpub, 'pubkey');
+    const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    const key = `${pubkey}:${JSON.stringify({ ...options, ttlMs: undefined })}`;
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return { ...hit.decision, cached: true };
+
+    const decision = await this.evaluate(pubkey, options);
+    const transient = decision.reasons.some((r) => r.code === 'directory-unreachable' || r.code === 'nip05-unreachable');
+    if (ttlMs > 0 && !transient) this.cache.set(key, { decision, expiresAt: decision.checkedAt + ttlMs });
+    else this.cache.delete(key);
+    return decision;
+  }
+
+  /** Forget one pubkey's verdicts, or all of them */
+  clear(pubkeyOrNpub?: string): void {
+    if (!pubkeyOrNpub) {
+      this.cache.clear();
+      return;
+    }
+    const pubkey = toHexPubkey(pubkeyOrNpub, 'pubkey');
+    for (const key of this.cache.keys()) if (key.startsWith(`${pubkey}:`)) this.cache.delete(key);
+  }
+
+  private async evaluate(pubkey: string, options: GateOptions): Promise<GateDecision> {
+    const decision: GateDecision = { allowed: false, pubkey, reasons: [], verify: null, nip05: null, cached: false, checkedAt: Date.now() };
+    const listed = (list?: string[]) => (list || []).some((entry) => toHexPubkey(entry, 'allowList/denyList entry') === pubkey);
+
+    if (listed(options.denyList)) {
+      decision.reasons.push({ code: 'deny-listed', message: 'Pubkey is on the deny list' });
+      return decision;
+    }
+    if (listed(options.allowList)) {
+      decision.allowed = true;
+      decision.reasons.push({ code: 'allow-listed', message: 'Pubkey is on the allow list' });
+      return decision;
+    }
+
+    const reasons = decision.reasons;
+    const minTrust = options.minTrust ?? 0;
+    if (options.requireRegistered || minTrust > 0) {
+      try {
+        // Verdicts have their own TTL; a cached verify would stretch it
+        decision.verify = await this.client.verify(pubkey, { cache: false });
+        if (options.requireRegistered && !decision.verify.registered) {
+          reasons.push({ code: 'not-registered', message: 'Not registered on agentdex' });
+        }
+        if (decision.verify.trustScore < minTrust) {
+          reasons.push({ code: 'low-trust', message: `Trust score ${decision.verify.trustScore} is below ${minTrust}` });
+        }
+      } catch (err) {
+        reasons.push({ code: 'directory-unreachable', message: `Could not verify with the directory: ${(err as Error).message}` });
+      }
+    }
+
+    if (options.requireNip05) {
+      const reason = await this.checkNip05(pubkey, options, decision);
+      if (reason) reasons.push(reason);
+    }
+
+    decision.allowed = reasons.length === 0;
+    return decision;
+  }
+
+  /**
+   * Confirm the NIP-05 against the domain's own nostr.json rather than
+   * trusting the directory or kind 0
+   */
+  private async checkNip05(pubkey: string, options: GateOptions, decision: GateDecision): Promise<GateReason | null> {
+    let identifier = options.nip05;
+    if (!identifier) {
+      const kind0 = await fetchNewestEvent(options.relays || DEFAULT_RELAYS, { kinds: [0], authors: [pubkey] });
+      try {
+        const nip05 = kind0 ? JSON.parse(kind0.content).nip05 : undefined;
+        identifier = typeof nip05 === 'string' && nip05 ? nip05 : undefined;
+      } catch {}
+    }
+    if (!identifier) return { code: 'nip05-missing', message: 'No NIP-05 identifier in kind 0' };
+
+    let domain: string;
+    try {
+      domain = parseNip05(identifier).domain;
+    } catch (err) {
+      return { code: 'nip05-mismatch', message: (err as Error).message };
+    }
+    decision.nip05 = { identifier, confirmed: false };
+    if (typeof options.requireNip05 === 'string' && domain !== options.requireNip05.toLowerCase()) {
+      return { code: 'nip05-wrong-domain', message: `${identifier} is not on ${options.requireNip05}` };
+    }
+
+    try {
+      const record = await fetchNip05(identifier);
+      decision.nip05.confirmed = record.pubkey === pubkey;
+    } catch (err) {
+      return { code: 'nip05-unreachable', message: `Could not fetch nostr.json for ${identifier}: ${(err as Error).message}` };
+    }
+    return decision.nip05.confirmed ? null : { code: 'nip05-mismatch', message: `${identifier} does not point at this pubkey` };
+  }
+}
+
+/** What the middleware attaches to the request */
+export interface AgentdexRequestAuth {
+  pubkey: string;
+  decision: GateDecision;
+}
+
+export interface Nip98MiddlewareOptions extends GateOptions {
+  /**
+   * Public origin the server is reached at (e.g. https://api.example.com),
+   * needed to check the signed URL behind a proxy. Defaults to the Host header
+   * with X-Forwarded-Proto, or http.
+   */
+  origin?: string;
+}
+
+type Middleware = (req: IncomingMessage & { agentdex?: AgentdexRequestAuth; body?: unknown; originalUrl?: string }, res: ServerResponse, next: (err?: unknown) => void) => Promise<void>;
+
+function reject(res: ServerResponse, status: number, body: object): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  if (status === 401) res.setHeader('WWW-Authenticate', 'Nostr');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Node HTTP middleware (Connect/Express style): authenticates the caller
+ * with a NIP-98 `Authorization: Nostr <base64 event>` header, then gates its
+ * pubkey. Answers 401 for a missing or invalid signature and 403 when the
+ * gate denies; otherwise sets `req.agentdex` and calls next().
+ *
+ * The signed `payload` hash is checked against `req.body` when a body parser
+ * has set it; raw bodies are not read.
+ *
+ * ```ts
+ * const app = express();
+ * app.use(express.json());
+ * app.use(nip98Middleware(client, { minTrust: 30, requireRegistered: true }));
+ * ```
+ */
+export function nip98Middleware(client: AgentdexClient, options: Nip98MiddlewareOptions = {}): Middleware {
+  const { origin, ...gateOptions } = options;
+  return async (req, res, next) => {
+    let pubkey: string;
+    try {
+      const header = req.headers.authorization;
+      if (!header || !/^Nostr\s/i.test(header)) {
+        reject(res, 401, { error: 'NIP-98 authorization required' });
+        return;
+      }
+      const event = await nip98.unpackEventFromToken(header);
+      const proto = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0].trim() || 'http';
+      const base = (origin || `${proto}://${req.headers.host}`).replace(/\/$/, '');
+      // Express strips a mount path (app.use('/api', ...)) from req.url but not from originalUrl
+      await nip98.validateEvent(event, `${base}${req.originalUrl ?? req.url}`, req.method || 'GET', req.body);
+      if (event.created_at > Math.floor(Date.now() / 1000) + 60) throw new Error('Invalid nostr event, created_at is in the future');
+      pubkey = event.pubkey;
+    } catch (err) {
+      reject(res, 401, { error: (err as Error).message });
+      return;
+    }
+
+    try {
+      const decision = await client.gate(pubkey, gateOptions);
+      if (!decision.allowed) {
+        reject(res, 403, { error: 'Forbidden', reasons: decision.reasons });
+        return;
+      }
+      req.agentdex = { pubkey, decision };
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Agent availability — set the kind 31339 status, and keep it fresh with a
+ * heartbeat that flips the agent offline when it shuts down
+ */
+
+import type { VerifiedEvent } from 'nostr-tools/pure';
+import type { AgentdexClient } from './client.js';
+import { buildProfileUpdateEvent, publishEvent, DEFAULT_RELAYS, type ProfileTagDiff, type PublishOptions, type PublishReport } from './nostr.js';
+import { toSigner, type Signer, type SignerInput } from './signer.js';
+import type { AgentStatus } from './validate.js';
+
+export interface StatusOptions {
+  /** Note shown next to the status; omit to clear the previous one */
+  message?: string;
+  relays?: string[];
+  publish?: PublishOptions;
+  /** Also re-submit the profile to the directory so search reflects the status */
+  client?: AgentdexClient;
+}
+
+export interface StatusResult {
+  event: VerifiedEvent;
+  diff: ProfileTagDiff;
+  report: PublishReport;
+  /** Whether the directory accepted the updated profile (false if no client was given, or it wants a fee) */
+  registered: boolean;
+}
+
+/**
+ * Republish the kind 31339 profile with a new status, keeping every other tag
+ */
+export async function setStatus(signer: SignerInput, status: AgentStatus, options: StatusOptions = {}): Promise<StatusResult> {
+  const relays = options.relays || DEFAULT_RELAYS;
+  const { event, diff } = await buildProfileUpdateEvent(signer, { status, statusMessage: options.message ?? '' }, relays);
+  const report = await publishEvent(event, relays, options.publish);
+  let registered = false;
+  if (options.client && report.ok) {
+    // An unpaid registration answers 402 awaiting_payment; the directory still has the old profile
+    const response = await options.client.register(event);
+    registered = response?.status !== 'awaiting_payment';
+  }
+  return { event, diff, report, registered };
+}
+
+export interface HeartbeatOptions extends StatusOptions {
+  /** Time between beats in ms (default 300000, five minutes) */
+  intervalMs?: number;
+  /** Status published on every beat (default active) */
+  status?: AgentStatus;
+  /** Status published by stop() (default offline) */
+  offlineStatus?: AgentStatus;
+  onBeat?: (result: StatusResult) => void;
+  /** Failed beats are reported here; the heartbeat keeps running */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Periodically republishes the agent's profile so its status stays current.
+ * Call stop() on shutdown to publish the offline status.
+ *
+ * ```ts
+ * const heartbeat = new Heartbeat(signer, { relays, client, intervalMs: 60_000 });
+ * process.on('SIGTERM', () => heartbeat.stop().then(() => process.exit(0)));
+ * await heartbeat.start();
+ * ```
+ */
+export class Heartbeat {
+  private signer: Signer;
+  private options: HeartbeatOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private stopped = false;
+  private inFlight: Promise<StatusResult | null> = Promise.resolve(null);
+
+  constructor(signer: SignerInput, options: HeartbeatOptions = {}) {
+    this.signer = toSigner(signer);
+    this.options = options;
+  }
+
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Publish the first beat, then keep beating every intervalMs. Throws if the first beat fails.
+   */
+  async start(): Promise<StatusResult> {
+    if (this.running) throw new Error('Heartbeat already running');
+    this.stopped = false;
+    const first = await this.beat();
+    // stop() may have been called during the first beat
+    if (this.stopped) return first;
+    this.timer = setInterval(() => {
+      this.beat().catch((err) => this.options.onError?.(err));
+    }, this.options.intervalMs ?? 300_000);
+    return first;
+  }
+
+  /**
+   * Publish one beat now. Beats never overlap; a beat requested while one is
+   * in flight runs after it.
+   */
+  beat(): Promise<StatusResult> {
+    const next = this.inFlight.catch(() => null).then(async () => {
+      const result = await setStatus(this.signer, this.options.status ?? 'active', this.options);
+      this.options.onBeat?.(result);
+      return result;
+    });
+    this.inFlight = next;
+    return next;
+  }
+
+  /**
+   * Stop beating and publish the offline status
+   */
+  async stop(): Promise<StatusResult> {
+    this.stopped = true;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.inFlight.catch(() => null);
+    return setStatus(this.signer, this.options.offlineStatus ?? 'offline', { ...this.options, message: undefined });
+  }
+}
@@ -10,23 +10,127 @@
  * ```
  */
 
-export { AgentdexClient } from './client.js';
+export { AgentdexClient, AgentdexApiError, AGENTDEX_NIP05_DOMAIN } from './client.js';
 export type {
   AgentdexConfig,
+  RequestOptions,
   RegisterOptions,
   VerifyResult,
+  VerifyManyOptions,
+  VerifyManyResult,
   ClaimResult,
   ClaimStatus,
   SearchOptions,
+  SearchPage,
+  AgentSummary,
+  Nip05Record,
 } from './client.js';
 
 export {
   parseSecretKey,
+  encryptSecretKey,
+  readKeyFile,
+  saveKeyFile,
+  isEncryptedKeyFile,
   getNpub,
   getPubkeyHex,
   createProfileEvent,
   buildKind0Event,
+  fetchProfileEvent,
+  fetchEvents,
+  parseProfileEvent,
+  fetchAgentProfile,
+  mergeProfileTags,
+  diffProfileTags,
+  buildProfileUpdateEvent,
+  publishEvent,
   publishToRelays,
+  DEFAULT_RELAYS,
+  PublishError,
   createNote,
 } from './nostr.js';
-export type { AgentProfile } from './nostr.js';
+export { payInvoice, decodeInvoice, checkInvoice, getBalance, lookupPayment, SpendingLimitError } from './nwc.js';
+export type { PaymentResult, DecodedInvoice, SpendingLimits, WalletPayment } from './nwc.js';
+export {
+  fetchRelayList,
+  relaysForAuthor,
+  parseRelayList,
+  relayListTags,
+  buildRelayListEvent,
+  readRelays,
+  writeRelays,
+  addRelay,
+  removeRelay,
+  normalizeRelayUrl,
+  RELAY_LIST_KIND,
+  RELAY_LIST_INDEXERS,
+} from './relays.js';
+export type { RelayList, RelayListEntry } from './relays.js';
+export { loadManifest, parseManifest, validateManifest, serializeManifest, manifestFormat, manifestProfile, manifestKind0, lintManifest, MANIFEST_KEYS } from './manifest.js';
+export type { AgentManifest, ManifestFormat } from './manifest.js';
+export {
+  validateProfile,
+  validateProfileUpdate,
+  validateKind0,
+  assertValid,
+  hasErrors,
+  ProfileValidationError,
+  pubkeyProblem,
+  toHexPubkey,
+  urlProblem,
+  lightningAddressProblem,
+  nip05Problem,
+  nip05NameProblem,
+  normalizeCapability,
+  normalizeCapabilities,
+  OWNER_TYPES,
+  AGENT_STATUSES,
+  MESSAGING_POLICIES,
+  MAX_TRUST_SCORE,
+} from './validate.js';
+export type { ValidationIssue, AgentStatus, MessagingPolicy } from './validate.js';
+export { setStatus, Heartbeat } from './heartbeat.js';
+export type { StatusOptions, StatusResult, HeartbeatOptions } from './heartbeat.js';
+export { fetchChildren, fetchFleet, renderFleetTree } from './fleet.js';
+export type { FleetMember, FleetNode, FetchChildrenOptions, FetchFleetOptions } from './fleet.js';
+export { diagnoseAgent, fixAgent } from './doctor.js';
+export type { DoctorReport, DoctorFinding, DoctorFix, DoctorFixResult, RelaySnapshot, DiagnoseOptions, FixOptions } from './doctor.js';
+export {
+  sendDirectMessage,
+  fetchInbox,
+  fetchDirectMessages,
+  fetchDmRelays,
+  createRumor,
+  wrapRumor,
+  unwrapDirectMessage,
+  messagingRulesOf,
+  checkSender,
+  checkFeeProof,
+  MessagingPolicyError,
+  MessageDeliveryError,
+  DM_RELAY_LIST_KIND,
+} from './messaging.js';
+export type { Rumor, MessagingRules, MessagingRefusal, SendMessageOptions, SendMessageResult, FetchMessagesOptions, InboxOptions, InboxMessage, Inbox } from './messaging.js';
+export { zap, requestZapInvoice, createZapRequest, waitForZapReceipt, fetchZaps, parseZapReceipt, ZAP_REQUEST_KIND, ZAP_RECEIPT_KIND } from './zaps.js';
+export type { ZapRequestParams, ZapInvoice, ZapOptions, ZapReceipt, ZapResult, FetchZapsOptions } from './zaps.js';
+export { TrustGate, nip98Middleware } from './gate.js';
+export type { GateOptions, GateDecision, GateReason, GateReasonCode, Nip98MiddlewareOptions, AgentdexRequestAuth } from './gate.js';
+export { fetchNip05, parseNip05, resolveNip05 } from './nip05.js';
+export type { Nip05Options, Nip05Resolution, ResolveNip05Options } from './nip05.js';
+export { fetchPayRequest, requestInvoice, payRequestUrl, encodeLnurl } from './lnurl.js';
+export type { PayRequest, LnurlOptions } from './lnurl.js';
+export { SpendingLedger } from './spending.js';
+export type { AuditEntry, BudgetPeriod } from './spending.js';
+
+export { MemoryCacheStore, FileCacheStore, ResponseCache, parseCacheControl, DEFAULT_CACHE_TTLS } from './cache.js';
+export type { CacheStore, CacheEntry, CacheEndpoint, CacheOptions, CacheHit, CacheStats } from './cache.js';
+export { DevServer } from './devserver.js';
+export type { DevServerOptions, DevAgent, DevInvoice } from './devserver.js';
+export { DevRelay } from './devrelay.js';
+
+export { MemoryPaymentStore, FilePaymentStore, PaymentError, waitForPayment } from './payments.js';
+export type { PendingPayment, PaymentStore, PaymentKind, PaymentFlowOptions, PaymentFlowResult } from './payments.js';
+
+export { LocalSigner, InjectedSigner, connectBunker, toSigner } from './signer.js';
+export type { Signer, SignerInput, InjectedNostr, BunkerOptions } from './signer.js';
+export type { AgentProfile, FetchedAgentProfile, AgentProfileUpdate, Kind0Fields, PortfolioItem, ProfileTagDiff, PublishOptions, PublishReport, RelayPublishResult, RelayPublishStatus } from './nostr.js';
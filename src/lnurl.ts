@@ -0,0 +1,88 @@
+/**
+ * LNURL-pay (LUD-06/LUD-16) — turn a lightning address into an invoice
+ */
+
+import { bech32 } from '@scure/base';
+import { schemeFor } from './validate.js';
+
+export interface PayRequest {
+  callback: string;
+  /** Millisats */
+  minSendable: number;
+  /** Millisats */
+  maxSendable: number;
+  metadata: string;
+  /** Longest comment the service accepts (LUD-12), 0 if none */
+  commentAllowed?: number;
+  /** Whether the service accepts NIP-57 zap requests */
+  allowsNostr?: boolean;
+  /** Pubkey that signs the service's zap receipts */
+  nostrPubkey?: string;
+}
+
+export interface LnurlOptions {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+/**
+ * The LNURL-pay endpoint for a lightning address (name@domain) or a bech32 lnurl1... string.
+ * localhost addresses use http so a local stand-in can be used for testing.
+ */
+export function payRequestUrl(address: string): string {
+  if (/^lnurl1/i.test(address)) {
+    const { words } = bech32.decode(address.toLowerCase() as `${string}1${string}`, 2000);
+    return Buffer.from(bech32.fromWords(words)).toString('utf-8');
+  }
+  const at = address.lastIndexOf('@');
+  if (at < 1) throw new Error(`Invalid lightning address "${address}"`);
+  const domain = address.slice(at + 1);
+  return `${schemeFor(domain)}://${domain}/.well-known/lnurlp/${encodeURIComponent(address.slice(0, at))}`;
+}
+
+/**
+ * Encode an LNURL endpoint as a bech32 lnurl1... string, the form NIP-57 zap requests carry
+ */
+export function encodeLnurl(url: string): string {
+  return bech32.encode('lnurl', bech32.toWords(Buffer.from(url, 'utf-8')), 2000);
+}
+
+async function getJson(url: string, options: LnurlOptions): Promise<any> {
+  const fetchImpl = options.fetch || fetch;
+  const res = await fetchImpl(url, { signal: AbortSignal.timeout(options.timeoutMs ?? 15000) });
+  let body: any;
+  try {
+    body = await res.json();
+  } catch {
+    throw new Error(`LNURL service returned invalid JSON (HTTP ${res.status})`);
+  }
+  if (body?.status === 'ERROR') throw new Error(`LNURL service error: ${body.reason || 'unknown'}`);
+  if (!res.ok) throw new Error(`LNURL service returned HTTP ${res.status}`);
+  return body;
+}
+
+/**
+ * Fetch the pay request parameters for a lightning address
+ */
+export async function fetchPayRequest(address: string, options: LnurlOptions = {}): Promise<PayRequest> {
+  const body = await getJson(payRequestUrl(address), options);
+  if (body.tag !== 'payRequest' || !body.callback) throw new Error(`${address} is not an LNURL-pay endpoint`);
+  return body as PayRequest;
+}
+
+/**
+ * Ask the LNURL service for an invoice. `nostr` is a signed kind 9734 zap request (NIP-57).
+ */
+export async function requestInvoice(payRequest: PayRequest, amountMsat: number, params: { comment?: string; nostr?: string } = {}, options: LnurlOptions = {}): Promise<string> {
+  if (amountMsat < payRequest.minSendable || amountMsat > payRequest.maxSendable) {
+    throw new Error(`Amount must be between ${Math.ceil(payRequest.minSendable / 1000)} and ${Math.floor(payRequest.maxSendable / 1000)} sats`);
+  }
+  const url = new URL(payRequest.callback);
+  url.searchParams.set('amount', String(amountMsat));
+  if (params.comment && payRequest.commentAllowed) url.searchParams.set('comment', params.comment.slice(0, payRequest.commentAllowed));
+  if (params.nostr) url.searchParams.set('nostr', params.nostr);
+
+  const body = await getJson(url.toString(), options);
+  if (typeof body.pr !== 'string') throw new Error('LNURL service did not return an invoice');
+  return body.pr;
+}
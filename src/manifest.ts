@@ -0,0 +1,182 @@
+/**
+ * Agent manifest — a JSON or YAML file describing an agent: the AgentProfile
+ * fields (kind 31339) plus the kind 0 basics (avatar, lightning, website,
+ * bot, owner), so definitions can live in git instead of long command lines
+ */
+
+import { readFileSync } from 'fs';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { AgentProfile, Kind0Fields } from './nostr.js';
+import { toHexPubkey, validateProfile, validateKind0, ProfileValidationError, type ValidationIssue } from './validate.js';
+
+export interface AgentManifest extends AgentProfile {
+  /** Avatar image URL (kind 0 picture) */
+  avatar?: string;
+  /** Lightning address (kind 0 lud16) */
+  lightning?: string;
+  /** Website URL (kind 0 website) */
+  website?: string;
+  /** Declare the pubkey as automated (kind 0 ["bot"] tag) */
+  bot?: boolean;
+  /** Owner/operator pubkey, npub or hex (kind 0 p tag) */
+  owner?: string;
+}
+
+export type ManifestFormat = 'json' | 'yaml';
+
+type FieldType = 'string' | 'string[]' | 'number' | 'boolean' | 'portfolio';
+
+const MANIFEST_FIELDS: Record<keyof AgentManifest, FieldType> = {
+  name: 'string',
+  description: 'string',
+  capabilities: 'string[]',
+  framework: 'string',
+  model: 'string',
+  ownerType: 'string',
+  ownerX: 'string',
+  status: 'string',
+  statusMessage: 'string',
+  parent: 'string',
+  messagingPolicy: 'string',
+  messagingMinTrust: 'number',
+  messagingFee: 'number',
+  portfolio: 'portfolio',
+  skills: 'string[]',
+  experience: 'string[]',
+  avatar: 'string',
+  lightning: 'string',
+  website: 'string',
+  bot: 'boolean',
+  owner: 'string',
+};
+
+export const MANIFEST_KEYS = Object.keys(MANIFEST_FIELDS) as (keyof AgentManifest)[];
+
+/**
+ * Manifest format from a file name: .yaml/.yml is YAML, anything else JSON
+ */
+export function manifestFormat(path: string): ManifestFormat {
+  return /\.ya?ml$/i.test(path) ? 'yaml' : 'json';
+}
+
+function checkField(key: keyof AgentManifest, value: unknown): string | null {
+  switch (MANIFEST_FIELDS[key]) {
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string') ? null : 'must be a list of strings';
+    case 'portfolio':
+      if (!Array.isArray(value)) return 'must be a list';
+      for (const [i, item] of value.entries()) {
+        if (typeof item !== 'object' || item === null) return `entry ${i + 1} must be an object with id and url`;
+        const { id, url, name, description } = item as Record<string, unknown>;
+        if (typeof id !== 'string' || !id) return `entry ${i + 1} needs an id`;
+        if (typeof url !== 'string' || !url) return `entry ${i + 1} needs a url`;
+        if (name !== undefined && typeof name !== 'string') return `entry ${i + 1} name must be a string`;
+        if (description !== undefined && typeof description !== 'string') return `entry ${i + 1} description must be a string`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Check a parsed manifest's shape. Unknown keys are rejected so typos don't
+ * silently drop fields.
+ */
+export function validateManifest(data: unknown, source = 'manifest'): AgentManifest {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`${source}: expected an object of agent fields`);
+  }
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in MANIFEST_FIELDS)) {
+      errors.push(`unknown field "${key}"`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+    const problem = checkField(key as keyof AgentManifest, value);
+    if (problem) errors.push(`${key} ${problem}`);
+  }
+  if (errors.length) {
+    throw new Error(`${source}: ${errors.join('; ')}. Valid fields: ${MANIFEST_KEYS.join(', ')}`);
+  }
+  // Drop nulls (YAML `key:` with no value) so they read as "not set"
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== null && v !== undefined)) as AgentManifest;
+}
+
+export function parseManifest(text: string, format: ManifestFormat, source = 'manifest'): AgentManifest {
+  let data: unknown;
+  try {
+    data = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${source}: could not parse ${format.toUpperCase()}: ${(err as Error).message}`);
+  }
+  return validateManifest(data, source);
+}
+
+/**
+ * Read and validate a manifest file (JSON, or YAML for .yaml/.yml)
+ */
+export function loadManifest(path: string): AgentManifest {
+  return parseManifest(readFileSync(path, 'utf-8'), manifestFormat(path), path);
+}
+
+export function serializeManifest(manifest: AgentManifest, format: ManifestFormat): string {
+  const ordered = Object.fromEntries(MANIFEST_KEYS.filter((k) => manifest[k] !== undefined).map((k) => [k, manifest[k]]));
+  return format === 'yaml' ? stringifyYaml(ordered) : JSON.stringify(ordered, null, 2) + '\n';
+}
+
+/**
+ * The kind 31339 part of a manifest
+ */
+export function manifestProfile(manifest: AgentManifest): AgentProfile {
+  const { avatar, lightning, website, bot, owner, ...profile } = manifest;
+  return { ...profile, parent: profile.parent ? toHexPubkey(profile.parent, 'parent') : undefined };
+}
+
+/**
+ * The kind 0 part of a manifest, in the shape buildKind0Event takes
+ */
+export function manifestKind0(manifest: AgentManifest): Kind0Fields {
+  return {
+    name: manifest.name,
+    about: manifest.description,
+    picture: manifest.avatar,
+    lud16: manifest.lightning,
+    website: manifest.website,
+    ownerPubkeyHex: manifest.owner ? toHexPubkey(manifest.owner, 'owner') : undefined,
+    bot: manifest.bot,
+  };
+}
+
+/** Kind 0 field names as they appear in a manifest */
+const KIND0_MANIFEST_FIELDS: Record<string, string> = { about: 'description', picture: 'avatar', lud16: 'lightning', ownerPubkeyHex: 'owner' };
+
+/**
+ * Check a manifest's values (URLs, pubkeys, ranges, ...). Field names in the
+ * issues are the manifest's own.
+ */
+export function lintManifest(manifest: AgentManifest): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const pubkey = (value: string | undefined, field: string) => {
+    if (!value) return undefined;
+    try {
+      return toHexPubkey(value, field);
+    } catch (err) {
+      if (!(err instanceof ProfileValidationError)) throw err;
+      issues.push(...err.issues);
+      return undefined;
+    }
+  };
+  const parent = pubkey(manifest.parent, 'parent');
+  const owner = pubkey(manifest.owner, 'owner');
+  issues.push(...validateProfile({ ...manifestProfile({ ...manifest, parent: undefined }), parent }));
+  for (const issue of validateKind0({ ...manifestKind0({ ...manifest, owner: undefined }), ownerPubkeyHex: owner })) {
+    issues.push({ ...issue, field: KIND0_MANIFEST_FIELDS[issue.field] || issue.field });
+  }
+  return issues;
+}
@@ -0,0 +1,448 @@
+/**
+ * Agent-to-agent messaging — NIP-17 private direct messages (NIP-44
+ * encrypted, NIP-59 gift wrapped) that honour the recipient's messaging
+ * policy, minimum trust score and fee
+ */
+
+import { createHash } from 'crypto';
+import { nip19 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getEventHash, verifyEvent, type Event, type VerifiedEvent } from 'nostr-tools/pure';
+import * as nip44 from 'nostr-tools/nip44';
+import { AgentdexClient, type VerifyResult } from './client.js';
+import { fetchAgentProfile, fetchEvents, fetchNewestEvent, publishEvent, DEFAULT_RELAYS, type AgentProfile, type PublishOptions, type PublishReport } from './nostr.js';
+import { fetchRelayList, readRelays, relaysForAuthor } from './relays.js';
+import { fetchPayRequest, requestInvoice } from './lnurl.js';
+import { decodeInvoice, lookupPayment } from './nwc.js';
+import { toSigner, type Signer, type SignerInput } from './signer.js';
+
+/** Kind of the relay list an agent wants its DMs delivered to (NIP-17) */
+export const DM_RELAY_LIST_KIND = 10050;
+
+/** Gift wraps and seals are backdated up to two days so their timestamps leak nothing (NIP-59) */
+const TIMESTAMP_JITTER = 2 * 24 * 60 * 60;
+
+/**
+ * The unsigned kind 14 chat message inside a seal
+ */
+export interface Rumor {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+}
+
+/**
+ * An agent's messaging rules, from its kind 31339 profile
+ */
+export interface MessagingRules {
+  /** open, registered or closed; unknown values are treated as open */
+  policy: string;
+  /** Minimum directory trust score a sender needs */
+  minTrust: number;
+  /** Sats a sender has to pay per message */
+  feeSats: number;
+}
+
+/**
+ * Why a message was refused: the recipient accepts no messages, only
+ * registered agents, or a higher trust score; it charges a fee nobody paid;
+ * or the sender's standing couldn't be checked
+ */
+export type MessagingRefusal = 'closed' | 'not-registered' | 'low-trust' | 'fee-required' | 'unverified';
+
+/**
+ * Thrown by sendDirectMessage when the recipient's policy rules the message out
+ */
+export class MessagingPolicyError extends Error {
+  readonly reason: MessagingRefusal;
+  readonly rules: MessagingRules;
+
+  constructor(reason: MessagingRefusal, message: string, rules: MessagingRules) {
+    super(message);
+    this.name = 'MessagingPolicyError';
+    this.reason = reason;
+    this.rules = rules;
+  }
+}
+
+/**
+ * Thrown when a message's fee was paid but the message couldn't be sent.
+ * `fee` holds the invoice and preimage, the proof of payment.
+ */
+export class MessageDeliveryError extends Error {
+  readonly fee: { amountSats: number; invoice: string; preimage: string };
+
+  constructor(message: string, fee: MessageDeliveryError['fee'], cause?: unknown) {
+    super(`${message} (fee of ${fee.amountSats} sats already paid, preimage ${fee.preimage})`, { cause });
+    this.name = 'MessageDeliveryError';
+    this.fee = fee;
+  }
+}
+
+/**
+ * Messaging rules of a profile. The directory's verify result fills in the
+ * policy when the profile has none.
+ */
+export function messagingRulesOf(profile: AgentProfile | null, verified?: Pick<VerifyResult, 'messagingPolicy'> | null): MessagingRules {
+  return {
+    policy: profile?.messagingPolicy || verified?.messagingPolicy || 'open',
+    minTrust: profile?.messagingMinTrust ?? 0,
+    feeSats: profile?.messagingFee ?? 0,
+  };
+}
+
+/**
+ * Check a sender against the policy and minimum trust score (not the fee).
+ * `sender` is the directory's verify result for the sender, or null if the
+ * directory couldn't be asked. Returns null if the sender may write.
+ */
+export function checkSender(rules: MessagingRules, sender: Pick<VerifyResult, 'registered' | 'trustScore'> | null): { reason: MessagingRefusal; message: string } | null {
+  if (rules.policy === 'closed') return { reason: 'closed', message: 'The agent does not accept messages' };
+  if (!sender && (rules.policy === 'registered' || rules.minTrust > 0)) {
+    return { reason: 'unverified', message: 'Could not check the sender with the directory' };
+  }
+  if (rules.policy === 'registered' && !sender!.registered) {
+    return { reason: 'not-registered', message: 'Only agents registered on agentdex may send messages' };
+  }
+  if (sender && sender.trustScore < rules.minTrust) {
+    return { reason: 'low-trust', message: `Trust score ${sender.trustScore} is below the required ${rules.minTrust}` };
+  }
+  return null;
+}
+
+/**
+ * Check the ["fee", bolt11, preimage] tag of a rumor: the preimage must hash
+ * to the invoice's payment hash and the invoice must cover the fee. This
+ * alone proves nothing was paid to us — a sender can pay an invoice of their
+ * own — so fetchInbox also confirms the payment with our wallet.
+ */
+export function checkFeeProof(rumor: Pick<Rumor, 'tags'>, feeSats: number): { paymentHash: string; amountSats: number } | string {
+  const tag = rumor.tags.find((t) => t[0] === 'fee');
+  if (!tag || !tag[1] || !tag[2]) return `No payment for the ${feeSats} sat fee`;
+  let invoice;
+  try {
+    invoice = decodeInvoice(tag[1]);
+  } catch {
+    return 'Fee invoice is not a valid bolt11 invoice';
+  }
+  if (!/^[0-9a-f]{64}$/.test(tag[2]) || createHash('sha256').update(Buffer.from(tag[2], 'hex')).digest('hex') !== invoice.paymentHash) {
+    return 'Fee preimage does not match the invoice';
+  }
+  if ((invoice.amountSats ?? 0) < feeSats) return `Fee invoice is for ${invoice.amountSats ?? 0} sats, ${feeSats} required`;
+  return { paymentHash: invoice.paymentHash!, amountSats: invoice.amountSats! };
+}
+
+const jitter = () => Math.floor(Date.now() / 1000) - Math.floor(Math.random() * TIMESTAMP_JITTER);
+
+async function encrypt(signer: Signer, pubkey: string, plaintext: string): Promise<string> {
+  if (!signer.nip44Encrypt) throw new Error('This signer cannot encrypt messages (no NIP-44 support)');
+  return signer.nip44Encrypt(pubkey, plaintext);
+}
+
+async function decrypt(signer: Signer, pubkey: string, ciphertext: string): Promise<string> {
+  if (!signer.nip44Decrypt) throw new Error('This signer cannot decrypt messages (no NIP-44 support)');
+  return signer.nip44Decrypt(pubkey, ciphertext);
+}
+
+/**
+ * Build the kind 14 rumor for a message
+ */
+export async function createRumor(signer: SignerInput, recipientHex: string, content: string, tags: string[][] = []): Promise<Rumor> {
+  const template = {
+    pubkey: await toSigner(signer).getPublicKey(),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 14,
+    tags: [['p', recipientHex], ...tags],
+    content,
+  };
+  return { ...template, id: getEventHash(template) };
+}
+
+/**
+ * Seal a rumor for one receiver (kind 13, signed by the sender) and gift wrap
+ * it with a throwaway key (kind 1059). Only the receiver can open it.
+ */
+export async function wrapRumor(signer: SignerInput, rumor: Rumor, receiverHex: string): Promise<VerifiedEvent> {
+  const s = toSigner(signer);
+  const seal = await s.signEvent({
+    kind: 13,
+    created_at: jitter(),
+    tags: [],
+    content: await encrypt(s, receiverHex, JSON.stringify(rumor)),
+  });
+  const wrapKey = generateSecretKey();
+  return finalizeEvent({
+    kind: 1059,
+    created_at: jitter(),
+    tags: [['p', receiverHex]],
+    content: nip44.encrypt(JSON.stringify(seal), nip44.getConversationKey(wrapKey, receiverHex)),
+  }, wrapKey);
+}
+
+/**
+ * Open a gift wrap addressed to the signer. Throws if it isn't a valid
+ * NIP-17 message or the seal's signer differs from the rumor's author.
+ */
+export async function unwrapDirectMessage(signer: SignerInput, wrap: Event): Promise<Rumor> {
+  const s = toSigner(signer);
+  if (wrap.kind !== 1059) throw new Error(`Not a gift wrap (kind ${wrap.kind})`);
+  const seal = JSON.parse(await decrypt(s, wrap.pubkey, wrap.content)) as Event;
+  if (seal.kind !== 13 || !verifyEvent(seal)) throw new Error('Invalid seal');
+  const rumor = JSON.parse(await decrypt(s, seal.pubkey, seal.content)) as Rumor;
+  if (rumor.pubkey !== seal.pubkey) throw new Error('Rumor author does not match the seal signer');
+  if (rumor.kind !== 14) throw new Error(`Not a chat message (kind ${rumor.kind})`);
+  return rumor;
+}
+
+/**
+ * Relays a pubkey wants DMs delivered to: its kind 10050 list, or else its
+ * NIP-65 read relays plus the given ones
+ */
+export async function fetchDmRelays(pubkeyHex: string, relays: string[] = DEFAULT_RELAYS): Promise<string[]> {
+  const event = await fetchNewestEvent(relays, { kinds: [DM_RELAY_LIST_KIND], authors: [pubkeyHex] });
+  const listed = (event?.tags || []).filter((t) => t[0] === 'relay' && t[1]).map((t) => t[1]);
+  if (listed.length > 0) return [...new Set(listed)];
+  const list = await fetchRelayList(pubkeyHex, relays);
+  return [...new Set([...(list ? readRelays(list.entries) : []), ...relays])];
+}
+
+export interface SendMessageOptions {
+  relays?: string[];
+  client?: AgentdexClient;
+  /**
+   * Pays the recipient's messaging fee and returns the preimage. Without
+   * one, messages to agents that charge a fee are refused.
+   */
+  payer?: (invoice: string, amountSats: number) => Promise<{ preimage: string }>;
+  publish?: PublishOptions;
+}
+
+export interface SendMessageResult {
+  recipient: string;
+  rules: MessagingRules;
+  /** Our own trust score according to the directory, null if it couldn't be reached */
+  trustScore: number | null;
+  /** The fee paid, if the recipient charges one */
+  fee: { amountSats: number; invoice: string; preimage: string } | null;
+  rumor: Rumor;
+  /** The gift wrap delivered to the recipient */
+  wrap: VerifiedEvent;
+  /** Relays the recipient reads DMs from */
+  relays: string[];
+  report: PublishReport;
+}
+
+/**
+ * Send a NIP-17 direct message. The recipient's messaging policy is checked
+ * first, and its fee is paid through `payer` before anything is sent.
+ * Throws MessagingPolicyError if the recipient would not accept the message,
+ * and MessageDeliveryError if it fails after the fee was paid. When relays
+ * reject it, `report.ok` is false and `fee` holds the proof of payment.
+ *
+ * A copy wrapped for ourselves goes to our own relays so other clients show
+ * the conversation.
+ */
+export async function sendDirectMessage(signer: SignerInput, recipientHex: string, content: string, options: SendMessageOptions = {}): Promise<SendMessageResult> {
+  const s = toSigner(signer);
+  const client = options.client ?? new AgentdexClient();
+  const relays = options.relays || DEFAULT_RELAYS;
+  const pubkey = await s.getPublicKey();
+
+  // Everything that can fail before the message is sent happens before the fee is paid
+  const [profile, recipient, sender, dmRelays] = await Promise.all([
+    relaysForAuthor(recipientHex, relays).then((authorRelays) => fetchAgentProfile(recipientHex, authorRelays)),
+    client.verify(recipientHex).catch(() => null),
+    client.verify(pubkey).catch(() => null),
+    fetchDmRelays(recipientHex, relays),
+  ]);
+  const rules = messagingRulesOf(profile, recipient);
+  const refusal = checkSender(rules, sender);
+  if (refusal) throw new MessagingPolicyError(refusal.reason, refusal.message, rules);
+
+  let fee: SendMessageResult['fee'] = null;
+  if (rules.feeSats > 0) {
+    if (!options.payer) throw new MessagingPolicyError('fee-required', `The agent charges ${rules.feeSats} sats per message and no payer was given`, rules);
+    if (!profile?.lud16) throw new MessagingPolicyError('fee-required', `The agent charges ${rules.feeSats} sats per message but has no lightning address to pay`, rules);
+    const payRequest = await fetchPayRequest(profile.lud16);
+    const invoice = await requestInvoice(payRequest, rules.feeSats * 1000, { comment: 'agentdex message fee' });
+    if (decodeInvoice(invoice).amountSats !== rules.feeSats) throw new Error(`Fee invoice is not for ${rules.feeSats} sats`);
+    const { preimage } = await options.payer(invoice, rules.feeSats);
+    fee = { amountSats: rules.feeSats, invoice, preimage };
+  }
+
+  let rumor: Rumor, wrap: VerifiedEvent, report: PublishReport;
+  try {
+    rumor = await createRumor(s, recipientHex, content, fee ? [['fee', fee.invoice, fee.preimage]] : []);
+    wrap = await wrapRumor(s, rumor, recipientHex);
+    report = await publishEvent(wrap, dmRelays, options.publish);
+  } catch (err) {
+    if (fee) throw new MessageDeliveryError(`Message not sent: ${(err as Error).message}`, fee, err);
+    throw err;
+  }
+  if (report.ok && recipientHex !== pubkey) {
+    await publishEvent(await wrapRumor(s, rumor, pubkey), relays, options.publish).catch(() => undefined);
+  }
+
+  return { recipient: recipientHex, rules, trustScore: sender?.trustScore ?? null, fee, rumor, wrap, relays: dmRelays, report };
+}
+
+export interface FetchMessagesOptions {
+  /** Only messages written at or after this unix time (seconds) */
+  since?: number;
+  limit?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Fetch and decrypt the DMs addressed to the signer, newest first. Gift
+ * wraps that can't be opened are skipped.
+ */
+export async function fetchDirectMessages(signer: SignerInput, relays: string[] = DEFAULT_RELAYS, options: FetchMessagesOptions = {}): Promise<Rumor[]> {
+  const s = toSigner(signer);
+  const pubkey = await s.getPublicKey();
+  const filter = {
+    kinds: [1059],
+    '#p': [pubkey],
+    ...(options.since !== undefined ? { since: options.since - TIMESTAMP_JITTER } : {}),
+  };
+
+  const wraps = await fetchEvents(relays, filter, options.timeoutMs ?? 10000);
+  const seen = new Set<string>();
+  const rumors: Rumor[] = [];
+  for (const wrap of wraps) {
+    try {
+      const rumor = await unwrapDirectMessage(s, wrap);
+      if (seen.has(rumor.id) || (options.since !== undefined && rumor.created_at < options.since)) continue;
+      seen.add(rumor.id);
+      rumors.push(rumor);
+    } catch {
+      // Not for us, or not a chat message
+    }
+  }
+  rumors.sort((a, b) => b.created_at - a.created_at);
+  return options.limit !== undefined ? rumors.slice(0, options.limit) : rumors;
+}
+
+export interface InboxOptions extends FetchMessagesOptions {
+  relays?: string[];
+  client?: AgentdexClient;
+  /** Filter by these rules instead of the ones in our published profile */
+  rules?: MessagingRules;
+  /**
+   * NWC URI of our own wallet, used to confirm that fees were received.
+   * Without it, messages that owe a fee are left unverified and not allowed.
+   */
+  nwc?: string;
+}
+
+export interface InboxMessage {
+  id: string;
+  from: string;
+  npub: string;
+  content: string;
+  createdAt: number;
+  /** The sender's directory verify result, null if it couldn't be fetched */
+  sender: VerifyResult | null;
+  /** The fee the sender paid, if we charge one and the proof checks out */
+  fee: { amountSats: number; paymentHash: string } | null;
+  /**
+   * Whether our wallet confirmed receiving the fee; false when it said no,
+   * couldn't be asked or no NWC URI was given. Null if no fee is due.
+   */
+  feeVerified: boolean | null;
+  /** Whether the message passes our messaging rules */
+  allowed: boolean;
+  /** Why it doesn't */
+  reason?: string;
+}
+
+export interface Inbox {
+  rules: MessagingRules;
+  messages: InboxMessage[];
+}
+
+/**
+ * Fetch our DMs and check each sender against our own messaging rules: the
+ * policy, the minimum trust score and the fee, which our wallet must confirm
+ * it received (`nwc`). Messages we sent ourselves are left out.
+ */
+export async function fetchInbox(signer: SignerInput, options: InboxOptions = {}): Promise<Inbox> {
+  const s = toSigner(signer);
+  const client = options.client ?? new AgentdexClient();
+  const relays = options.relays || DEFAULT_RELAYS;
+  const pubkey = await s.getPublicKey();
+
+  const [rules, dmRelays] = await Promise.all([
+    options.rules ?? fetchAgentProfile(pubkey, relays).then((profile) => messagingRulesOf(profile)),
+    fetchDmRelays(pubkey, relays),
+  ]);
+  // Our own copies are dropped before the limit, so they don't take the place of received messages
+  const received = (await fetchDirectMessages(s, [...new Set([...dmRelays, ...relays])], { ...options, limit: undefined })).filter((r) => r.pubkey !== pubkey);
+  const rumors = options.limit !== undefined ? received.slice(0, options.limit) : received;
+
+  const senders = new Map<string, Promise<VerifyResult | null>>();
+  const verify = (hex: string) => {
+    if (!senders.has(hex)) senders.set(hex, client.verify(hex).catch(() => null));
+    return senders.get(hex)!;
+  };
+
+  // Returns why the fee isn't confirmed as received by our wallet, or null if it is
+  const confirmFee = async (paymentHash: string): Promise<string | null> => {
+    if (!options.nwc) return 'Fee not verified: no wallet (NWC) to confirm it was received';
+    try {
+      const payment = await lookupPayment(options.nwc, paymentHash);
+      if (!payment || payment.direction !== 'incoming') return 'Fee invoice was not issued by our wallet';
+      if (payment.state !== 'settled') return `Fee invoice is ${payment.state}, not settled`;
+      if (payment.amountSats < rules.feeSats) return `Fee paid was ${payment.amountSats} sats, ${rules.feeSats} required`;
+      return null;
+    } catch (err) {
+      return `Fee not verified: could not check with our wallet (${(err as Error).message})`;
+    }
+  };
+
+  // Oldest first, so a fee proof reused by a later message is the one rejected
+  const usedPayments = new Set<string>();
+  const messages: InboxMessage[] = [];
+  for (const rumor of [...rumors].reverse()) {
+    const sender = await verify(rumor.pubkey);
+    const message: InboxMessage = {
+      id: rumor.id,
+      from: rumor.pubkey,
+      npub: nip19.npubEncode(rumor.pubkey),
+      content: rumor.content,
+      createdAt: rumor.created_at,
+      sender,
+      fee: null,
+      feeVerified: null,
+      allowed: true,
+    };
+    const refusal = checkSender(rules, sender);
+    if (refusal) {
+      message.allowed = false;
+      message.reason = refusal.message;
+    } else if (rules.feeSats > 0) {
+      const proof = checkFeeProof(rumor, rules.feeSats);
+      if (typeof proof === 'string') {
+        message.allowed = false;
+        message.reason = proof;
+      } else if (usedPayments.has(proof.paymentHash)) {
+        message.allowed = false;
+        message.reason = 'Fee payment was already used by an earlier message';
+      } else {
+        usedPayments.add(proof.paymentHash);
+        message.fee = proof;
+        const unconfirmed = await confirmFee(proof.paymentHash);
+        message.feeVerified = !unconfirmed;
+        if (unconfirmed) {
+          message.allowed = false;
+          message.reason = unconfirmed;
+        }
+      }
+    }
+    messages.push(message);
+  }
+
+  return { rules, messages: messages.reverse() };
+}
@@ -0,0 +1,125 @@
+/**
+ * NIP-05 — look up name@domain identifiers in the domain's /.well-known/nostr.json
+ * and check them against kind 0 and the directory
+ */
+
+import { nip19 } from 'nostr-tools';
+import { AgentdexClient, AGENTDEX_NIP05_DOMAIN, type Nip05Record, type VerifyResult } from './client.js';
+import { fetchNewestEvent, DEFAULT_RELAYS } from './nostr.js';
+import { schemeFor } from './validate.js';
+
+export interface Nip05Options {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Split a NIP-05 identifier into name and domain. A bare domain means `_@domain`.
+ */
+export function parseNip05(identifier: string): { name: string; domain: string } {
+  const at = identifier.lastIndexOf('@');
+  const [name, domain] = at < 0 ? ['_', identifier] : [identifier.slice(0, at) || '_', identifier.slice(at + 1)];
+  if (!domain || !/^[a-z0-9.-]+(:\d+)?$/i.test(domain)) throw new Error(`Invalid NIP-05 identifier "${identifier}"`);
+  return { name: name.toLowerCase(), domain: domain.toLowerCase() };
+}
+
+/**
+ * Fetch the pubkey and relay hints a domain publishes for a NIP-05 identifier.
+ * Returns a null pubkey if the name isn't listed. localhost domains use http.
+ */
+export async function fetchNip05(identifier: string, options: Nip05Options = {}): Promise<Nip05Record> {
+  const { name, domain } = parseNip05(identifier);
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? 10000);
+  const res = await (options.fetch || fetch)(`${schemeFor(domain)}://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`, {
+    signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+    redirect: 'error',
+  });
+  if (res.status === 404) return { pubkey: null, relays: [] };
+  if (!res.ok) throw new Error(`${domain} returned HTTP ${res.status} for /.well-known/nostr.json`);
+
+  let data: { names?: Record<string, string>; relays?: Record<string, string[]> };
+  try {
+    data = await res.json();
+  } catch {
+    throw new Error(`${domain} returned invalid JSON for /.well-known/nostr.json`);
+  }
+  const pubkey = data.names?.[name];
+  if (!pubkey || !/^[0-9a-f]{64}$/.test(pubkey)) return { pubkey: null, relays: [] };
+  return { pubkey, relays: data.relays?.[pubkey] ?? [] };
+}
+
+export interface Nip05Resolution {
+  identifier: string;
+  /** Pubkey from nostr.json, null if the name isn't listed */
+  pubkey: string | null;
+  npub: string | null;
+  /** Relay hints from nostr.json */
+  relays: string[];
+  /** The nip05 field of the pubkey's kind 0, null if it has none */
+  kind0Nip05: string | null;
+  /** The directory's verify result for the pubkey, null if it couldn't be fetched */
+  directory: VerifyResult | null;
+  /** Where kind 0 or the directory disagree with nostr.json */
+  mismatches: { source: 'kind0' | 'directory'; message: string }[];
+}
+
+export interface ResolveNip05Options extends Nip05Options {
+  client?: AgentdexClient;
+  /** Relays to read kind 0 from, besides the relay hints (default DEFAULT_RELAYS) */
+  relays?: string[];
+}
+
+/** `_@domain` and `domain` are the same identifier */
+const canonical = (identifier: string) => {
+  const { name, domain } = parseNip05(identifier);
+  return `${name}@${domain}`;
+};
+
+/**
+ * Resolve a NIP-05 identifier through the domain's nostr.json, then
+ * cross-check the pubkey's kind 0 `nip05` and the directory's verify result.
+ * Names on the directory's own domain are looked up through the client.
+ */
+export async function resolveNip05(identifier: string, options: ResolveNip05Options = {}): Promise<Nip05Resolution> {
+  const client = options.client ?? new AgentdexClient();
+  const { name, domain } = parseNip05(identifier);
+  const record = domain === AGENTDEX_NIP05_DOMAIN
+    ? await client.lookupNip05(name, { signal: options.signal, timeoutMs: options.timeoutMs })
+    : await fetchNip05(identifier, options);
+  const resolution: Nip05Resolution = { identifier, pubkey: record.pubkey, npub: null, relays: record.relays, kind0Nip05: null, directory: null, mismatches: [] };
+  if (!record.pubkey) return resolution;
+  resolution.npub = nip19.npubEncode(record.pubkey);
+
+  const relays = [...new Set([...record.relays, ...(options.relays || DEFAULT_RELAYS)])];
+  const [kind0, directory] = await Promise.all([
+    fetchNewestEvent(relays, { kinds: [0], authors: [record.pubkey] }),
+    client.verify(record.pubkey).catch(() => null),
+  ]);
+
+  try {
+    const nip05 = kind0 ? JSON.parse(kind0.content).nip05 : undefined;
+    resolution.kind0Nip05 = typeof nip05 === 'string' && nip05 ? nip05 : null;
+  } catch {}
+  if (!kind0) {
+    resolution.mismatches.push({ source: 'kind0', message: 'No kind 0 found on relays' });
+  } else if (!resolution.kind0Nip05) {
+    resolution.mismatches.push({ source: 'kind0', message: 'kind 0 has no nip05' });
+  } else {
+    let claimed: string | null = null;
+    try {
+      claimed = canonical(resolution.kind0Nip05);
+    } catch {}
+    if (claimed !== canonical(identifier)) {
+      resolution.mismatches.push({ source: 'kind0', message: `kind 0 nip05 is ${resolution.kind0Nip05}` });
+    }
+  }
+
+  resolution.directory = directory;
+  if (directory?.npub?.startsWith('npub1') && directory.npub !== resolution.npub) {
+    resolution.mismatches.push({ source: 'directory', message: `Directory returned ${directory.npub}` });
+  } else if (directory && !directory.registered && domain === AGENTDEX_NIP05_DOMAIN) {
+    resolution.mismatches.push({ source: 'directory', message: `${identifier} resolves, but the directory has no registration for it` });
+  }
+  return resolution;
+}
@@ -2,12 +2,17 @@
  * Nostr utilities — event creation, signing, publishing
  */
 
-import { finalizeEvent, getPublicKey, generateSecretKey } from 'nostr-tools/pure';
+import { getPublicKey, generateSecretKey, finalizeEvent, type Event, type EventTemplate, type VerifiedEvent } from 'nostr-tools/pure';
 import { nip19 } from 'nostr-tools';
+import * as nip49 from 'nostr-tools/nip49';
 import { SimplePool } from 'nostr-tools/pool';
-import { mkdirSync, writeFileSync } from 'fs';
+import type { Filter } from 'nostr-tools/filter';
+import { normalizeURL } from 'nostr-tools/utils';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { toSigner, type Signer, type SignerInput } from './signer.js';
+import { assertValid, validateProfile, validateProfileUpdate, validateKind0, normalizeCapabilities } from './validate.js';
 
-const DEFAULT_RELAYS = ['wss://nos.lol', 'wss://relay.damus.io'];
+export const DEFAULT_RELAYS = ['wss://nos.lol', 'wss://relay.damus.io'];
 
 export interface PortfolioItem {
   id: string;
@@ -24,7 +29,10 @@ export interface AgentProfile {
   model?: string;
   ownerType?: string;
   ownerX?: string;
+  /** Availability: active, busy, paused, retired or offline */
   status?: string;
+  /** Free-text note shown next to the status, e.g. "back at 14:00 UTC" */
+  statusMessage?: string;
   parent?: string;
   messagingPolicy?: string;
   messagingMinTrust?: number;
@@ -35,30 +43,67 @@ export interface AgentProfile {
 }
 
 /**
- * Generate a new Nostr keypair and save to a JSON file.
- * Returns the secret key as Uint8Array.
+ * Write a key file. With a passphrase the secret is stored only as a
+ * NIP-49 ncryptsec; without one it is stored as plaintext nsec + hex.
  */
-export function generateAndSaveKeypair(outputPath: string): { sk: Uint8Array; npub: string; path: string } {
-  const sk = generateSecretKey();
+export function saveKeyFile(outputPath: string, sk: Uint8Array, passphrase?: string): string {
   const pk = getPublicKey(sk);
-  const nsec = nip19.nsecEncode(sk);
   const npub = nip19.npubEncode(pk);
-  const skHex = Buffer.from(sk).toString('hex');
 
-  const data = JSON.stringify({ nsec, npub, sk_hex: skHex, pk_hex: pk }, null, 2);
+  const data = passphrase
+    ? JSON.stringify({ ncryptsec: nip49.encrypt(sk, passphrase), npub, pk_hex: pk }, null, 2)
+    : JSON.stringify({ nsec: nip19.nsecEncode(sk), npub, sk_hex: Buffer.from(sk).toString('hex'), pk_hex: pk }, null, 2);
 
   // Ensure directory exists
   const dir = outputPath.substring(0, outputPath.lastIndexOf('/'));
   if (dir) mkdirSync(dir, { recursive: true });
 
   writeFileSync(outputPath, data, { mode: 0o600 });
-  return { sk, npub, path: outputPath };
+  return outputPath;
+}
+
+/**
+ * Generate a new Nostr keypair and save to a JSON file (encrypted if a passphrase is given).
+ * Returns the secret key as Uint8Array.
+ */
+export function generateAndSaveKeypair(outputPath: string, passphrase?: string): { sk: Uint8Array; npub: string; path: string } {
+  const sk = generateSecretKey();
+  saveKeyFile(outputPath, sk, passphrase);
+  return { sk, npub: getNpub(sk), path: outputPath };
+}
+
+/**
+ * Check whether a key file holds an ncryptsec rather than a plaintext key
+ */
+export function isEncryptedKeyFile(path: string): boolean {
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  return typeof data.ncryptsec === 'string' && !data.sk_hex && !data.nsec;
+}
+
+/**
+ * Read the secret key from a JSON key file (plaintext or ncryptsec)
+ */
+export function readKeyFile(path: string, passphrase?: string): Uint8Array {
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  if (data.sk_hex) return parseSecretKey(data.sk_hex);
+  if (data.nsec) return parseSecretKey(data.nsec);
+  if (data.ncryptsec) return parseSecretKey(data.ncryptsec, passphrase);
+  throw new Error('Key file must contain sk_hex, nsec or ncryptsec');
 }
 
 /**
- * Parse a secret key from nsec, hex, or key file
+ * Parse a secret key from nsec, hex, or ncryptsec (NIP-49, requires passphrase)
  */
-export function parseSecretKey(input: string): Uint8Array {
+export function parseSecretKey(input: string, passphrase?: string): Uint8Array {
+  // Encrypted key (NIP-49)
+  if (input.startsWith('ncryptsec')) {
+    if (passphrase === undefined) throw new Error('Passphrase required to decrypt ncryptsec key');
+    try {
+      return nip49.decrypt(input, passphrase);
+    } catch {
+      throw new Error('Could not decrypt ncryptsec key. Wrong passphrase?');
+    }
+  }
   // If it's an nsec
   if (input.startsWith('nsec')) {
     const decoded = nip19.decode(input);
@@ -69,7 +114,14 @@ export function parseSecretKey(input: string): Uint8Array {
   if (/^[0-9a-f]{64}$/i.test(input)) {
     return Uint8Array.from(Buffer.from(input, 'hex'));
   }
-  throw new Error('Invalid key format. Provide nsec or 64-char hex.');
+  throw new Error('Invalid key format. Provide nsec, ncryptsec or 64-char hex.');
+}
+
+/**
+ * Encrypt a secret key as a NIP-49 ncryptsec string
+ */
+export function encryptSecretKey(sk: Uint8Array, passphrase: string): string {
+  return nip49.encrypt(sk, passphrase);
 }
 
 /**
@@ -88,9 +140,22 @@ export function getPubkeyHex(sk: Uint8Array): string {
 }
 
 /**
- * Build and sign a kind 31339 agent profile event
+ * Sign with a raw secret key synchronously, as the event builders did before
+ * signers existed, or through a Signer
+ */
+function signTemplate(signer: SignerInput, template: EventTemplate): VerifiedEvent | Promise<VerifiedEvent> {
+  return signer instanceof Uint8Array ? finalizeEvent(template, signer) : toSigner(signer).signEvent(template);
+}
+
+/**
+ * Build and sign a kind 31339 agent profile event. Signing with a secret key
+ * returns the event; a Signer returns a promise of it.
  */
-export function createProfileEvent(sk: Uint8Array, profile: AgentProfile) {
+export function createProfileEvent(sk: Uint8Array, profile: AgentProfile): VerifiedEvent;
+export function createProfileEvent(signer: Signer, profile: AgentProfile): Promise<VerifiedEvent>;
+export function createProfileEvent(signer: SignerInput, profile: AgentProfile): VerifiedEvent | Promise<VerifiedEvent>;
+export function createProfileEvent(signer: SignerInput, profile: AgentProfile): VerifiedEvent | Promise<VerifiedEvent> {
+  assertValid(validateProfile(profile));
   const tags: string[][] = [
     ['d', 'agentdex-profile'],
   ];
@@ -101,7 +166,7 @@ export function createProfileEvent(sk: Uint8Array, profile: AgentProfile) {
   if (profile.name) tags.push(['name', profile.name]);
   if (profile.description) tags.push(['description', profile.description]);
   if (profile.capabilities) {
-    for (const cap of profile.capabilities) {
+    for (const cap of normalizeCapabilities(profile.capabilities)) {
       tags.push(['capability', cap]);
     }
   }
@@ -109,11 +174,16 @@ export function createProfileEvent(sk: Uint8Array, profile: AgentProfile) {
   if (profile.model) tags.push(['model', profile.model]);
   if (profile.ownerType) tags.push(['owner_type', profile.ownerType]);
   if (profile.ownerX) tags.push(['owner_x', profile.ownerX]);
-  if (profile.parent) tags.push(['parent', profile.parent]);
+  if (profile.parent) {
+    tags.push(['parent', profile.parent]);
+    // Relays only index single-letter tags, so the parent is mirrored in a p tag to make children queryable
+    tags.push(['p', profile.parent, '', 'parent']);
+  }
   if (profile.status) tags.push(['status', profile.status || 'active']);
+  if (profile.statusMessage) tags.push(['status_message', profile.statusMessage]);
   if (profile.messagingPolicy) tags.push(['messaging_policy', profile.messagingPolicy]);
-  if (profile.messagingMinTrust) tags.push(['messaging_min_trust', String(profile.messagingMinTrust)]);
-  if (profile.messagingFee) tags.push(['messaging_fee', String(profile.messagingFee)]);
+  if (profile.messagingMinTrust !== undefined) tags.push(['messaging_min_trust', String(profile.messagingMinTrust)]);
+  if (profile.messagingFee !== undefined) tags.push(['messaging_fee', String(profile.messagingFee)]);
   if (profile.portfolio) {
     for (const item of profile.portfolio) {
       // New format: ["portfolio", id, url, label, description]
@@ -124,63 +194,445 @@ export function createProfileEvent(sk: Uint8Array, profile: AgentProfile) {
     }
   }
   if (profile.skills) {
-    for (const skill of profile.skills) {
+    for (const skill of new Set(profile.skills)) {
       tags.push(['skill', skill]);
     }
   }
   if (profile.experience) {
-    for (const exp of profile.experience) {
+    for (const exp of new Set(profile.experience)) {
       tags.push(['experience', exp]);
     }
   }
 
-  const event = finalizeEvent({
+  return signTemplate(signer, {
     kind: 31339,
     created_at: Math.floor(Date.now() / 1000),
     tags,
     content: '',
-  }, sk);
+  });
+}
+
+/**
+ * Explicit changes to apply to an existing kind 31339 profile.
+ * Scalar fields and full lists replace what is published; add/remove
+ * fields adjust the repeatable tags without touching the rest.
+ */
+export interface AgentProfileUpdate extends AgentProfile {
+  addCapabilities?: string[];
+  removeCapabilities?: string[];
+  addPortfolio?: PortfolioItem[];
+  removePortfolio?: string[];
+  addSkills?: string[];
+  removeSkills?: string[];
+  addExperience?: string[];
+  removeExperience?: string[];
+}
 
-  return event;
+export interface ProfileTagDiff {
+  added: string[][];
+  removed: string[][];
 }
 
+const SCALAR_PROFILE_TAGS: [keyof AgentProfile, string][] = [
+  ['name', 'name'],
+  ['description', 'description'],
+  ['framework', 'framework'],
+  ['model', 'model'],
+  ['ownerType', 'owner_type'],
+  ['ownerX', 'owner_x'],
+  ['parent', 'parent'],
+  ['status', 'status'],
+  ['statusMessage', 'status_message'],
+  ['messagingPolicy', 'messaging_policy'],
+  ['messagingMinTrust', 'messaging_min_trust'],
+  ['messagingFee', 'messaging_fee'],
+];
+
 /**
- * Publish an event to Nostr relays
+ * Query relays for every event matching the filter. Relays that haven't
+ * answered within timeoutMs are given up on; errors yield no events.
  */
-export async function publishToRelays(event: object, relays: string[] = DEFAULT_RELAYS, timeoutMs = 10000): Promise<string[]> {
+export async function fetchEvents(relays: string[], filter: Filter, timeoutMs = 5000): Promise<Event[]> {
   const pool = new SimplePool();
-  const published: string[] = [];
-
   try {
-    const results = await Promise.allSettled(
-      relays.map(async (relay) => {
-        await Promise.race([
-          pool.publish([relay], event as any),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), timeoutMs)),
-        ]);
-        return relay;
-      })
-    );
-
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        published.push(result.value);
+    return await Promise.race([
+      pool.querySync(relays, filter),
+      new Promise<Event[]>((resolve) => setTimeout(() => resolve([]), timeoutMs)),
+    ]);
+  } catch {
+    return [];
+  } finally {
+    pool.close(relays);
+  }
+}
+
+/**
+ * Query relays and return the newest event matching the filter, or null
+ */
+export async function fetchNewestEvent(relays: string[], filter: { kinds: number[]; authors: string[]; '#d'?: string[] }, timeoutMs = 5000): Promise<Event | null> {
+  const events = await fetchEvents(relays, filter, timeoutMs);
+  if (events.length === 0) return null;
+  return events.reduce((a, b) => a.created_at > b.created_at ? a : b);
+}
+
+/**
+ * Fetch the newest kind 31339 agentdex profile event for a pubkey
+ */
+export async function fetchProfileEvent(pubkeyHex: string, relays: string[] = DEFAULT_RELAYS): Promise<Event | null> {
+  return fetchNewestEvent(relays, { kinds: [31339], authors: [pubkeyHex], '#d': ['agentdex-profile'] });
+}
+
+/**
+ * An agent profile read back from relays: kind 31339 fields merged with
+ * the kind 0 metadata (picture, nip05, lud16, ...) of the same pubkey
+ */
+export interface FetchedAgentProfile extends AgentProfile {
+  pubkey: string;
+  npub: string;
+  about?: string;
+  picture?: string;
+  website?: string;
+  nip05?: string;
+  lud16?: string;
+  bot?: boolean;
+  ownerPubkey?: string;
+  profileEvent: Event | null;
+  metadataEvent: Event | null;
+}
+
+/**
+ * Parse a kind 31339 event's tags back into an AgentProfile.
+ * Unknown tags are ignored; malformed numeric values are dropped.
+ */
+export function parseProfileEvent(event: Pick<Event, 'tags'>): AgentProfile {
+  const profile: AgentProfile = {};
+  const num = (v: string | undefined) => {
+    const n = Number(v);
+    return v !== undefined && v !== '' && Number.isFinite(n) ? n : undefined;
+  };
+
+  for (const tag of event.tags) {
+    const [name, value] = tag;
+    if (value === undefined) continue;
+    switch (name) {
+      case 'name': profile.name = value; break;
+      case 'description': profile.description = value; break;
+      case 'framework': profile.framework = value; break;
+      case 'model': profile.model = value; break;
+      case 'owner_type': profile.ownerType = value; break;
+      case 'owner_x': profile.ownerX = value; break;
+      case 'parent': profile.parent = value; break;
+      case 'status': profile.status = value; break;
+      case 'status_message': profile.statusMessage = value; break;
+      case 'messaging_policy': profile.messagingPolicy = value; break;
+      case 'messaging_min_trust': profile.messagingMinTrust = num(value); break;
+      case 'messaging_fee': profile.messagingFee = num(value); break;
+      case 'capability':
+        (profile.capabilities ??= []).push(value);
+        break;
+      case 'skill':
+        (profile.skills ??= []).push(value);
+        break;
+      case 'experience':
+        (profile.experience ??= []).push(value);
+        break;
+      case 'portfolio': {
+        // New format: ["portfolio", id, url, label, description]
+        // Old format: ["portfolio", url, label, description]
+        const item: PortfolioItem = /^https?:\/\//.test(value)
+          ? { id: (tag[2] || value).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, ''), url: value, name: tag[2] || undefined, description: tag[3] || undefined }
+          : { id: value, url: tag[2] || '', name: tag[3] || undefined, description: tag[4] || undefined };
+        (profile.portfolio ??= []).push(item);
+        break;
       }
     }
+  }
+
+  return profile;
+}
+
+/**
+ * Fetch an agent's newest kind 31339 profile and kind 0 metadata from relays.
+ * Returns null if neither event is found.
+ */
+export async function fetchAgentProfile(pubkey: string, relays: string[] = DEFAULT_RELAYS): Promise<FetchedAgentProfile | null> {
+  let pubkeyHex = pubkey;
+  if (pubkey.startsWith('npub')) {
+    const decoded = nip19.decode(pubkey);
+    if (decoded.type !== 'npub') throw new Error('Invalid npub');
+    pubkeyHex = decoded.data;
+  }
+  if (!/^[0-9a-f]{64}$/i.test(pubkeyHex)) throw new Error('Invalid pubkey. Provide npub or 64-char hex.');
+  pubkeyHex = pubkeyHex.toLowerCase();
+
+  const [profileEvent, metadataEvent] = await Promise.all([
+    fetchProfileEvent(pubkeyHex, relays),
+    fetchNewestEvent(relays, { kinds: [0], authors: [pubkeyHex] }),
+  ]);
+  if (!profileEvent && !metadataEvent) return null;
+
+  let metadata: Record<string, unknown> = {};
+  if (metadataEvent) {
+    try {
+      metadata = JSON.parse(metadataEvent.content);
+    } catch {}
+  }
+  const str = (v: unknown) => typeof v === 'string' && v ? v : undefined;
+
+  const profile = profileEvent ? parseProfileEvent(profileEvent) : {};
+  return {
+    ...profile,
+    name: profile.name || str(metadata.name) || str(metadata.display_name),
+    pubkey: pubkeyHex,
+    npub: nip19.npubEncode(pubkeyHex),
+    about: str(metadata.about),
+    picture: str(metadata.picture),
+    website: str(metadata.website),
+    nip05: str(metadata.nip05),
+    lud16: str(metadata.lud16),
+    bot: metadataEvent ? metadataEvent.tags.some((t) => t[0] === 'bot') : undefined,
+    ownerPubkey: metadataEvent?.tags.find((t) => t[0] === 'p' && t[3] === 'owner')?.[1],
+    profileEvent,
+    metadataEvent,
+  };
+}
+
+/**
+ * Merge explicit updates into an existing set of kind 31339 tags.
+ * Tags not touched by the update (including unknown ones) are kept as-is.
+ */
+export function mergeProfileTags(existingTags: string[][], updates: AgentProfileUpdate): string[][] {
+  let tags = existingTags.map((t) => [...t]);
+  if (!tags.some((t) => t[0] === 'd')) tags.unshift(['d', 'agentdex-profile']);
+
+  const setScalar = (tagName: string, value: string) => {
+    const idx = tags.findIndex((t) => t[0] === tagName);
+    if (idx >= 0) {
+      tags[idx] = [tagName, value];
+      tags = tags.filter((t, i) => i === idx || t[0] !== tagName);
+    } else {
+      tags.push([tagName, value]);
+    }
+  };
+
+  for (const [key, tagName] of SCALAR_PROFILE_TAGS) {
+    const value = updates[key];
+    if (value === undefined) continue;
+    if (value === '') {
+      tags = tags.filter((t) => t[0] !== tagName);
+    } else {
+      setScalar(tagName, String(value));
+    }
+  }
+
+  if (updates.parent !== undefined) {
+    tags = tags.filter((t) => !(t[0] === 'p' && t[3] === 'parent'));
+    if (updates.parent) tags.push(['p', updates.parent, '', 'parent']);
+  }
+
+  const mergeList = (tagName: string, replace?: string[], add?: string[], remove?: string[]) => {
+    if (replace !== undefined) {
+      tags = tags.filter((t) => t[0] !== tagName);
+      for (const v of replace) tags.push([tagName, v]);
+    }
+    for (const v of add || []) {
+      if (!tags.some((t) => t[0] === tagName && t[1] === v)) tags.push([tagName, v]);
+    }
+    if (remove?.length) {
+      tags = tags.filter((t) => !(t[0] === tagName && remove.includes(t[1])));
+    }
+  };
+
+  mergeList('capability', updates.capabilities, updates.addCapabilities, updates.removeCapabilities);
+  mergeList('skill', updates.skills, updates.addSkills, updates.removeSkills);
+  mergeList('experience', updates.experience, updates.addExperience, updates.removeExperience);
+
+  // Portfolio entries are keyed by id: ["portfolio", id, url, label, description]
+  const portfolioTag = (item: PortfolioItem) => {
+    const tag = ['portfolio', item.id, item.url];
+    if (item.name) tag.push(item.name);
+    if (item.description) tag.push(item.description);
+    return tag;
+  };
+  if (updates.portfolio !== undefined) {
+    tags = tags.filter((t) => t[0] !== 'portfolio');
+    for (const item of updates.portfolio) tags.push(portfolioTag(item));
+  }
+  for (const item of updates.addPortfolio || []) {
+    const idx = tags.findIndex((t) => t[0] === 'portfolio' && t[1] === item.id);
+    if (idx >= 0) tags[idx] = portfolioTag(item);
+    else tags.push(portfolioTag(item));
+  }
+  if (updates.removePortfolio?.length) {
+    tags = tags.filter((t) => !(t[0] === 'portfolio' && updates.removePortfolio!.includes(t[1])));
+  }
+
+  return tags;
+}
+
+/**
+ * Compare two tag lists and return the tags added and removed
+ */
+export function diffProfileTags(before: string[][], after: string[][]): ProfileTagDiff {
+  const key = (t: string[]) => JSON.stringify(t);
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter((t) => !beforeKeys.has(key(t))),
+    removed: before.filter((t) => !afterKeys.has(key(t))),
+  };
+}
+
+/**
+ * Fetch the existing kind 31339 profile, merge explicit updates, and return
+ * the signed replacement along with the event it replaces.
+ * Throws if no profile has been published yet.
+ */
+export async function buildProfileUpdateEvent(signer: SignerInput, updates: AgentProfileUpdate, relays: string[] = DEFAULT_RELAYS) {
+  assertValid(validateProfileUpdate(updates));
+  const s = toSigner(signer);
+  const previous = await fetchProfileEvent(await s.getPublicKey(), relays);
+  if (!previous) {
+    throw new Error('No existing agentdex profile found on relays. Run `agentdex register` first.');
+  }
+
+  const tags = mergeProfileTags(previous.tags, {
+    ...updates,
+    capabilities: updates.capabilities && normalizeCapabilities(updates.capabilities),
+    addCapabilities: updates.addCapabilities && normalizeCapabilities(updates.addCapabilities),
+  });
+  const event = await s.signEvent({
+    kind: 31339,
+    created_at: Math.max(Math.floor(Date.now() / 1000), previous.created_at + 1),
+    tags,
+    content: previous.content,
+  });
+
+  return { event, previous, diff: diffProfileTags(previous.tags, tags) };
+}
+
+export type RelayPublishStatus = 'accepted' | 'rejected' | 'timeout' | 'connection-failed';
+
+export interface RelayPublishResult {
+  relay: string;
+  status: RelayPublishStatus;
+  /** Message from the relay's OK response (NIP-01/NIP-20), or the connection error */
+  message?: string;
+  /** Machine-readable prefix of the message, e.g. blocked, rate-limited, duplicate, invalid */
+  reason?: string;
+  attempts: number;
+}
+
+export interface PublishReport {
+  eventId: string;
+  results: RelayPublishResult[];
+  /** Relays that accepted the event */
+  accepted: string[];
+  quorum: number;
+  /** Whether at least `quorum` relays accepted the event */
+  ok: boolean;
+}
+
+export interface PublishOptions {
+  /** Per-attempt connection and OK timeout in ms (default 10000) */
+  timeoutMs?: number;
+  /** Extra attempts for timeouts, connection failures and rate-limited rejections (default 1) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled on each further retry (default 1000) */
+  retryDelayMs?: number;
+  /** Minimum number of relays that must accept the event (default 1) */
+  quorum?: number;
+}
+
+/**
+ * Thrown when fewer relays than the quorum accepted an event
+ */
+export class PublishError extends Error {
+  readonly report: PublishReport;
+
+  constructor(report: PublishReport) {
+    const failed = report.results.filter((r) => r.status !== 'accepted');
+    const details = failed.map((r) => `${r.relay}: ${r.message || r.status}`).join('; ');
+    super(`Event accepted by ${report.accepted.length} of ${report.results.length} relays (needed ${report.quorum})${details ? ` — ${details}` : ''}`);
+    this.name = 'PublishError';
+    this.report = report;
+  }
+}
+
+/** Rejections worth retrying; anything else (blocked, invalid, pow, ...) won't change */
+const RETRYABLE_REASONS = ['rate-limited', 'error'];
+
+function okReason(message: string | undefined): string | undefined {
+  return /^([a-z-]+):/.exec(message || '')?.[1];
+}
+
+async function publishOnce(pool: SimplePool, relay: string, event: Event, timeoutMs: number): Promise<Omit<RelayPublishResult, 'attempts'>> {
+  let conn;
+  try {
+    conn = await pool.ensureRelay(relay, { connectionTimeout: timeoutMs });
+  } catch (err) {
+    return { relay, status: 'connection-failed', message: String(err instanceof Error ? err.message : err) };
+  }
+
+  conn.publishTimeout = timeoutMs;
+  try {
+    const message = await conn.publish(event);
+    return { relay, status: 'accepted', message: message || undefined, reason: okReason(message) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (message === 'publish timed out') return { relay, status: 'timeout', message };
+    return { relay, status: 'rejected', message, reason: okReason(message) };
+  }
+}
+
+/**
+ * Publish an event and report the outcome on each relay. Relay failures
+ * don't throw; check `ok` (or use PublishError) to enforce the quorum.
+ */
+export async function publishEvent(event: Event, relays: string[] = DEFAULT_RELAYS, options: PublishOptions = {}): Promise<PublishReport> {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const retries = options.retries ?? 1;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const quorum = options.quorum ?? 1;
+  const pool = new SimplePool();
+  // A relay connection tracks one pending OK per event ID, so each relay must appear once
+  const targets = [...new Set(relays.map(normalizeURL))];
+
+  try {
+    const results = await Promise.all(targets.map(async (relay): Promise<RelayPublishResult> => {
+      for (let attempt = 1; ; attempt++) {
+        const result = await publishOnce(pool, relay, event, timeoutMs);
+        const retryable = result.status === 'timeout' || result.status === 'connection-failed'
+          || (result.status === 'rejected' && RETRYABLE_REASONS.includes(result.reason || ''));
+        if (!retryable || attempt > retries) return { ...result, attempts: attempt };
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }));
+
+    const accepted = results.filter((r) => r.status === 'accepted').map((r) => r.relay);
+    return { eventId: event.id, results, accepted, quorum, ok: accepted.length >= quorum };
   } finally {
-    pool.close(relays);
+    pool.close(targets);
   }
+}
 
-  return published;
+/**
+ * Publish an event to Nostr relays. Returns the relays that accepted it.
+ */
+export async function publishToRelays(event: object, relays: string[] = DEFAULT_RELAYS, timeoutMs = 10000): Promise<string[]> {
+  const report = await publishEvent(event as Event, relays, { timeoutMs, quorum: 0 });
+  return report.accepted;
 }
 
 /**
  * Fetch existing kind 0, merge new fields, and republish.
  * Used to set lud16 (lightning address) during registration.
  */
-export async function updateKind0(sk: Uint8Array, updates: { lud16?: string }, relays: string[] = DEFAULT_RELAYS): Promise<string[]> {
+export async function updateKind0(signer: SignerInput, updates: { lud16?: string }, relays: string[] = DEFAULT_RELAYS): Promise<string[]> {
+  assertValid(validateKind0(updates));
   const pool = new SimplePool();
-  const pubkey = getPublicKey(sk);
+  const s = toSigner(signer);
+  const pubkey = await s.getPublicKey();
 
   try {
     // Fetch existing kind 0
@@ -198,12 +650,12 @@ export async function updateKind0(sk: Uint8Array, updates: { lud16?: string }, r
     // Merge updates
     if (updates.lud16) existing.lud16 = updates.lud16;
 
-    const event = finalizeEvent({
+    const event = await s.signEvent({
       kind: 0,
       created_at: Math.floor(Date.now() / 1000),
       tags: [],
       content: JSON.stringify(existing),
-    }, sk);
+    });
 
     const published = await publishToRelays(event, relays);
     return published;
@@ -213,26 +665,35 @@ export async function updateKind0(sk: Uint8Array, updates: { lud16?: string }, r
 }
 
 /**
- * Build and sign a kind 0 profile metadata event (for NIP-05 verification).
- * After claiming a NIP-05 name, publish this to relays so Nostr clients
- * (njump, Damus, Primal) can verify the identity.
- */
-/**
- * Fetch existing kind 0, merge explicit updates, and return signed event.
- * Safe for existing Nostr users — only overwrites fields explicitly passed.
+ * Kind 0 fields agentdex manages. Undefined fields keep their published value.
  */
-export async function buildKind0Event(sk: Uint8Array, updates: {
+export interface Kind0Fields {
   name?: string;
   about?: string;
   nip05?: string;
   picture?: string;
   lud16?: string;
   website?: string;
+  /** Owner/operator pubkey (hex), published as a ["p", pubkey, "", "owner"] tag */
   ownerPubkeyHex?: string;
+  /** Add the ["bot"] tag */
   bot?: boolean;
-}, relays: string[] = DEFAULT_RELAYS) {
+}
+
+/**
+ * Build and sign a kind 0 profile metadata event (for NIP-05 verification).
+ * After claiming a NIP-05 name, publish this to relays so Nostr clients
+ * (njump, Damus, Primal) can verify the identity.
+ */
+/**
+ * Fetch existing kind 0, merge explicit updates, and return signed event.
+ * Safe for existing Nostr users — only overwrites fields explicitly passed.
+ */
+export async function buildKind0Event(signer: SignerInput, updates: Kind0Fields, relays: string[] = DEFAULT_RELAYS) {
+  assertValid(validateKind0(updates));
   const pool = new SimplePool();
-  const pubkey = getPublicKey(sk);
+  const s = toSigner(signer);
+  const pubkey = await s.getPublicKey();
 
   // Fetch existing kind 0 from relays
   let existing: Record<string, unknown> = {};
@@ -288,22 +749,26 @@ export async function buildKind0Event(sk: Uint8Array, updates: {
     if (existingBot) tags.push(existingBot);
   }
 
-  return finalizeEvent({
+  return s.signEvent({
     kind: 0,
     created_at: Math.floor(Date.now() / 1000),
     tags,
     content: JSON.stringify(existing),
-  }, sk);
+  });
 }
 
 /**
- * Create and sign a kind 1 note tagged #agentdex
+ * Create and sign a kind 1 note tagged #agentdex. Like createProfileEvent,
+ * synchronous with a secret key.
  */
-export function createNote(sk: Uint8Array, content: string) {
-  return finalizeEvent({
+export function createNote(sk: Uint8Array, content: string): VerifiedEvent;
+export function createNote(signer: Signer, content: string): Promise<VerifiedEvent>;
+export function createNote(signer: SignerInput, content: string): VerifiedEvent | Promise<VerifiedEvent>;
+export function createNote(signer: SignerInput, content: string): VerifiedEvent | Promise<VerifiedEvent> {
+  return signTemplate(signer, {
     kind: 1,
     created_at: Math.floor(Date.now() / 1000),
     tags: [['t', 'agentdex']],
     content,
-  }, sk);
+  });
 }
@@ -2,17 +2,155 @@
  * NWC (Nostr Wallet Connect) payment utility using Alby SDK
  */
 
-import { NWCClient } from '@getalby/sdk';
+import { NWCClient, Nip47WalletError } from '@getalby/sdk';
+import { bech32 } from '@scure/base';
 
 export interface PaymentResult {
   preimage: string;
   paid: boolean;
 }
 
+export interface DecodedInvoice {
+  /** Amount in sats, undefined for zero-amount invoices */
+  amountSats?: number;
+  paymentHash?: string;
+  description?: string;
+  /** Hex sha256 of a description too long to include (the `h` field), as NIP-57 zap invoices carry */
+  descriptionHash?: string;
+  /** Unix timestamp (seconds) when the invoice was created */
+  timestamp: number;
+  /** Unix timestamp (seconds) after which the invoice can't be paid */
+  expiresAt: number;
+  /** Network prefix, e.g. bc, tb, bcrt */
+  network: string;
+}
+
+/** A payment as the wallet reports it (NWC lookup_invoice) */
+export interface WalletPayment {
+  direction: 'incoming' | 'outgoing';
+  state: 'settled' | 'pending' | 'failed' | 'accepted';
+  amountSats: number;
+  preimage: string | null;
+}
+
+export interface SpendingLimits {
+  /** Amount the API said it would charge; the invoice must match it exactly */
+  expectedSats?: number;
+  /** Refuse invoices above this amount */
+  maxSats?: number;
+  /** Refuse invoices whose payment hash differs from the one the API returned */
+  expectedPaymentHash?: string;
+}
+
+/**
+ * Thrown when an invoice fails a local safety check and is not paid
+ */
+export class SpendingLimitError extends Error {
+  readonly invoice?: DecodedInvoice;
+
+  constructor(message: string, invoice?: DecodedInvoice) {
+    super(message);
+    this.name = 'SpendingLimitError';
+    this.invoice = invoice;
+  }
+}
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = { m: 1e-3, u: 1e-6, n: 1e-9, p: 1e-12 };
+
+/**
+ * Decode the fields of a BOLT11 invoice needed for local checks
+ */
+export function decodeInvoice(bolt11: string): DecodedInvoice {
+  const { prefix, words } = bech32.decode(bolt11.toLowerCase() as `${string}1${string}`, false);
+  const hrp = /^ln([a-z]+?)(\d+)?([munp])?$/.exec(prefix);
+  if (!hrp) throw new Error('Invalid bolt11 invoice prefix');
+
+  const [, network, amount, unit] = hrp;
+  let amountSats: number | undefined;
+  if (amount) {
+    const btc = Number(amount) * (unit ? AMOUNT_MULTIPLIERS[unit] : 1);
+    amountSats = Math.round(btc * 1e8 * 1000) / 1000;
+  }
+
+  // Data part: 35-bit timestamp, tagged fields, 520-bit signature
+  const data = words.slice(0, words.length - 104);
+  const toInt = (ws: number[]) => ws.reduce((acc, w) => acc * 32 + w, 0);
+  const timestamp = toInt(data.slice(0, 7));
+  let expiry = 3600;
+  let paymentHash: string | undefined;
+  let description: string | undefined;
+  let descriptionHash: string | undefined;
+
+  for (let i = 7; i + 3 <= data.length;) {
+    const type = data[i];
+    const length = data[i + 1] * 32 + data[i + 2];
+    const field = data.slice(i + 3, i + 3 + length);
+    i += 3 + length;
+    if (type === 1 && length === 52) {
+      paymentHash = Buffer.from(bech32.fromWordsUnsafe(field) || []).toString('hex');
+    } else if (type === 13) {
+      description = Buffer.from(bech32.fromWordsUnsafe(field) || []).toString('utf-8');
+    } else if (type === 23 && length === 52) {
+      descriptionHash = Buffer.from(bech32.fromWordsUnsafe(field) || []).toString('hex');
+    } else if (type === 6) {
+      expiry = toInt(field);
+    }
+  }
+
+  return { amountSats, paymentHash, description, descriptionHash, timestamp, expiresAt: timestamp + expiry, network };
+}
+
+/**
+ * Decode an invoice and check it against the expected amount, cap and payment hash.
+ * Throws SpendingLimitError if any check fails.
+ */
+export function checkInvoice(bolt11: string, limits: SpendingLimits = {}): DecodedInvoice {
+  let invoice: DecodedInvoice;
+  try {
+    invoice = decodeInvoice(bolt11);
+  } catch (err) {
+    throw new SpendingLimitError(`Could not decode invoice: ${(err as Error).message}`);
+  }
+
+  if (invoice.amountSats === undefined) {
+    throw new SpendingLimitError('Refusing to auto-pay an invoice without an amount', invoice);
+  }
+  if (limits.expectedSats !== undefined && invoice.amountSats !== limits.expectedSats) {
+    throw new SpendingLimitError(`Invoice is for ${invoice.amountSats} sats but the API quoted ${limits.expectedSats} sats`, invoice);
+  }
+  if (limits.maxSats !== undefined && invoice.amountSats > limits.maxSats) {
+    throw new SpendingLimitError(`Invoice for ${invoice.amountSats} sats exceeds the ${limits.maxSats} sat cap`, invoice);
+  }
+  if (limits.expectedPaymentHash && invoice.paymentHash && invoice.paymentHash !== limits.expectedPaymentHash) {
+    throw new SpendingLimitError('Invoice payment hash does not match the one returned by the API', invoice);
+  }
+  if (invoice.expiresAt < Math.floor(Date.now() / 1000)) {
+    throw new SpendingLimitError('Invoice has expired', invoice);
+  }
+  return invoice;
+}
+
+/**
+ * Get the wallet balance in sats via NWC get_balance
+ */
+export async function getBalance(nwcUri: string): Promise<number> {
+  const client = new NWCClient({ nostrWalletConnectUrl: nwcUri });
+
+  try {
+    const response = await client.getBalance();
+    // NWC reports balances in millisats
+    return Math.floor(response.balance / 1000);
+  } finally {
+    client.close();
+  }
+}
+
 /**
- * Pay a bolt11 invoice via NWC
+ * Pay a bolt11 invoice via NWC. If limits are given, the invoice is checked first.
  */
-export async function payInvoice(nwcUri: string, bolt11: string): Promise<PaymentResult> {
+export async function payInvoice(nwcUri: string, bolt11: string, limits?: SpendingLimits): Promise<PaymentResult> {
+  if (limits) checkInvoice(bolt11, limits);
+
   const client = new NWCClient({ nostrWalletConnectUrl: nwcUri });
 
   try {
@@ -22,3 +160,22 @@ export async function payInvoice(nwcUri: string, bolt11: string): Promise<Paymen
     client.close();
   }
 }
+
+/**
+ * Look a payment up by payment hash in the wallet via NWC lookup_invoice.
+ * Returns null if the wallet has no record of it.
+ */
+export async function lookupPayment(nwcUri: string, paymentHash: string): Promise<WalletPayment | null> {
+  const client = new NWCClient({ nostrWalletConnectUrl: nwcUri });
+
+  try {
+    const tx = await client.lookupInvoice({ payment_hash: paymentHash });
+    // NWC reports amounts in millisats
+    return { direction: tx.type, state: tx.state ?? (tx.settled_at ? 'settled' : 'pending'), amountSats: Math.floor(tx.amount / 1000), preimage: tx.preimage || null };
+  } catch (err) {
+    if (err instanceof Nip47WalletError && err.code === 'NOT_FOUND') return null;
+    throw err;
+  } finally {
+    client.close();
+  }
+}
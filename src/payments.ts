@@ -0,0 +1,183 @@
+/**
+ * Lightning payment flow for paid registrations and NIP-05 claims:
+ * invoice → optional auto-pay → poll until paid, with pending invoices
+ * persisted so an interrupted flow can be resumed later
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+
+export type PaymentKind = 'register' | 'claim';
+
+export interface PendingPayment {
+  kind: PaymentKind;
+  paymentHash: string;
+  invoice: string;
+  amountSats?: number;
+  expiresAt?: string;
+  /** Hex pubkey of the agent the payment is for */
+  pubkey: string;
+  /** NIP-05 name being claimed (claim only) */
+  name?: string;
+  /** API base URL the invoice was issued by */
+  baseUrl: string;
+  /** The signed event submitted with the request */
+  event: object;
+  /** Unix timestamp (seconds) when the invoice was received */
+  createdAt: number;
+}
+
+/**
+ * Where pending invoices are kept until they are paid, expire or are forgotten
+ */
+export interface PaymentStore {
+  list(): Promise<PendingPayment[]>;
+  save(payment: PendingPayment): Promise<void>;
+  remove(paymentHash: string): Promise<void>;
+}
+
+export class MemoryPaymentStore implements PaymentStore {
+  private payments = new Map<string, PendingPayment>();
+
+  async list(): Promise<PendingPayment[]> {
+    return [...this.payments.values()];
+  }
+
+  async save(payment: PendingPayment): Promise<void> {
+    this.payments.set(payment.paymentHash, payment);
+  }
+
+  async remove(paymentHash: string): Promise<void> {
+    this.payments.delete(paymentHash);
+  }
+}
+
+/**
+ * JSON file store, used by the CLI under its config directory
+ */
+export class FilePaymentStore implements PaymentStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async list(): Promise<PendingPayment[]> {
+    if (!existsSync(this.path)) return [];
+    return JSON.parse(readFileSync(this.path, 'utf-8'));
+  }
+
+  async save(payment: PendingPayment): Promise<void> {
+    const payments = (await this.list()).filter((p) => p.paymentHash !== payment.paymentHash);
+    this.write([...payments, payment]);
+  }
+
+  async remove(paymentHash: string): Promise<void> {
+    this.write((await this.list()).filter((p) => p.paymentHash !== paymentHash));
+  }
+
+  private write(payments: PendingPayment[]): void {
+    const dir = this.path.substring(0, this.path.lastIndexOf('/'));
+    if (dir) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.path, JSON.stringify(payments, null, 2) + '\n', { mode: 0o600 });
+  }
+}
+
+export class PaymentError extends Error {
+  readonly code: 'timeout' | 'expired';
+  readonly payment: PendingPayment;
+
+  constructor(message: string, code: 'timeout' | 'expired', payment: PendingPayment) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+    this.payment = payment;
+  }
+}
+
+export interface PaymentFlowOptions {
+  /** Pays the bolt11 invoice, e.g. (bolt11) => payInvoice(nwcUri, bolt11) */
+  payer?: (invoice: string, payment: PendingPayment) => Promise<unknown>;
+  /** Called once the invoice is known (show a QR code, log it, ...) */
+  onInvoice?: (payment: PendingPayment) => void | Promise<void>;
+  /** Called if the payer throws; polling continues so the invoice can still be paid manually */
+  onPayerError?: (err: Error, payment: PendingPayment) => void;
+  /** Called after the payer succeeds, before polling */
+  onPayerSuccess?: (payment: PendingPayment) => void;
+  /** Persist pending invoices so the flow can be resumed */
+  store?: PaymentStore;
+  signal?: AbortSignal;
+  /** Delay between status checks in ms (default 3000) */
+  pollIntervalMs?: number;
+  /** Give up waiting after this many ms (default 15 minutes) */
+  paymentTimeoutMs?: number;
+}
+
+export interface PaymentFlowResult<T> {
+  /** First API response: the successful result, or the 402 invoice */
+  response: T;
+  /** Set when a payment was required and has completed */
+  payment?: PendingPayment;
+}
+
+/**
+ * Poll a status endpoint until the invoice is paid, expires, or the timeout passes
+ */
+export async function waitForPayment(
+  payment: PendingPayment,
+  checkStatus: (paymentHash: string, signal?: AbortSignal) => Promise<{ paid: boolean; status?: string }>,
+  options: Pick<PaymentFlowOptions, 'signal' | 'pollIntervalMs' | 'paymentTimeoutMs' | 'store'> = {},
+): Promise<void> {
+  const interval = options.pollIntervalMs ?? 3000;
+  const deadline = Date.now() + (options.paymentTimeoutMs ?? 15 * 60 * 1000);
+
+  while (Date.now() < deadline) {
+    await new Promise<void>((resolve, reject) => {
+      if (options.signal?.aborted) return reject(options.signal.reason);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(options.signal!.reason);
+      };
+      // Removed once the timer fires, so long waits don't pile listeners onto the caller's signal
+      const timer = setTimeout(() => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, interval);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const status = await checkStatus(payment.paymentHash, options.signal);
+    if (status.paid) {
+      await options.store?.remove(payment.paymentHash);
+      return;
+    }
+    if (status.status === 'expired') {
+      await options.store?.remove(payment.paymentHash);
+      throw new PaymentError('Invoice expired before it was paid', 'expired', payment);
+    }
+  }
+
+  throw new PaymentError('Timed out waiting for payment', 'timeout', payment);
+}
+
+/**
+ * Run the invoice → pay → poll flow for a 402 response
+ */
+export async function completePayment(
+  payment: PendingPayment,
+  checkStatus: (paymentHash: string, signal?: AbortSignal) => Promise<{ paid: boolean; status?: string }>,
+  options: PaymentFlowOptions = {},
+): Promise<void> {
+  await options.store?.save(payment);
+  await options.onInvoice?.(payment);
+
+  if (options.payer) {
+    try {
+      await options.payer(payment.invoice, payment);
+      options.onPayerSuccess?.(payment);
+    } catch (err) {
+      options.onPayerError?.(err as Error, payment);
+    }
+  }
+
+  await waitForPayment(payment, checkStatus, options);
+}
@@ -0,0 +1,115 @@
+/**
+ * NIP-65 relay lists (kind 10002) — where an agent publishes (write relays)
+ * and where it reads mentions (read relays)
+ */
+
+import type { Event, VerifiedEvent } from 'nostr-tools/pure';
+import { normalizeURL } from 'nostr-tools/utils';
+import { DEFAULT_RELAYS, fetchNewestEvent } from './nostr.js';
+import { toSigner, type SignerInput } from './signer.js';
+
+export const RELAY_LIST_KIND = 10002;
+
+/** Relays that index kind 10002 lists, queried alongside the caller's relays */
+export const RELAY_LIST_INDEXERS = ['wss://purplepag.es'];
+
+export interface RelayListEntry {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+export interface RelayList {
+  entries: RelayListEntry[];
+  /** The kind 10002 event the list was read from */
+  event: Event;
+}
+
+/**
+ * Normalize a relay URL, rejecting anything that isn't ws:// or wss://
+ */
+export function normalizeRelayUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!/^wss?:\/\/[^\s/]+/i.test(trimmed)) throw new Error(`Invalid relay URL "${url}". Expected wss://...`);
+  return normalizeURL(trimmed);
+}
+
+/**
+ * Read the `r` tags of a kind 10002 event. A tag without a marker means read and write.
+ */
+export function parseRelayList(event: Pick<Event, 'tags'>): RelayListEntry[] {
+  const entries = new Map<string, RelayListEntry>();
+  for (const [name, url, marker] of event.tags) {
+    if (name !== 'r' || !url) continue;
+    let normalized: string;
+    try {
+      normalized = normalizeRelayUrl(url);
+    } catch {
+      continue;
+    }
+    const entry = entries.get(normalized) || { url: normalized, read: false, write: false };
+    if (marker !== 'write') entry.read = true;
+    if (marker !== 'read') entry.write = true;
+    entries.set(normalized, entry);
+  }
+  return [...entries.values()];
+}
+
+export function relayListTags(entries: RelayListEntry[]): string[][] {
+  return entries
+    .filter((e) => e.read || e.write)
+    .map((e) => e.read && e.write ? ['r', e.url] : ['r', e.url, e.read ? 'read' : 'write']);
+}
+
+export function writeRelays(entries: RelayListEntry[]): string[] {
+  return entries.filter((e) => e.write).map((e) => e.url);
+}
+
+export function readRelays(entries: RelayListEntry[]): string[] {
+  return entries.filter((e) => e.read).map((e) => e.url);
+}
+
+/**
+ * Fetch a pubkey's newest kind 10002 relay list. Indexer relays are queried too.
+ */
+export async function fetchRelayList(pubkeyHex: string, relays: string[] = DEFAULT_RELAYS): Promise<RelayList | null> {
+  const event = await fetchNewestEvent([...new Set([...relays, ...RELAY_LIST_INDEXERS])], { kinds: [RELAY_LIST_KIND], authors: [pubkeyHex] });
+  if (!event) return null;
+  return { entries: parseRelayList(event), event };
+}
+
+/**
+ * Relays to read an author's events from: their write relays (outbox model)
+ * plus the given relays, which are used alone if they have no relay list
+ */
+export async function relaysForAuthor(pubkeyHex: string, relays: string[] = DEFAULT_RELAYS): Promise<string[]> {
+  const list = await fetchRelayList(pubkeyHex, relays);
+  return [...new Set([...(list ? writeRelays(list.entries) : []), ...relays])];
+}
+
+/**
+ * Build and sign a kind 10002 relay list event
+ */
+export async function buildRelayListEvent(signer: SignerInput, entries: RelayListEntry[]): Promise<VerifiedEvent> {
+  return toSigner(signer).signEvent({
+    kind: RELAY_LIST_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: relayListTags(entries),
+    content: '',
+  });
+}
+
+/**
+ * Add a relay to a list, or change its read/write markers if it's already there
+ */
+export function addRelay(entries: RelayListEntry[], url: string, mode: { read?: boolean; write?: boolean } = {}): RelayListEntry[] {
+  const normalized = normalizeRelayUrl(url);
+  const entry: RelayListEntry = { url: normalized, read: mode.read ?? true, write: mode.write ?? true };
+  const exists = entries.some((e) => e.url === normalized);
+  return exists ? entries.map((e) => e.url === normalized ? entry : e) : [...entries, entry];
+}
+
+export function removeRelay(entries: RelayListEntry[], url: string): RelayListEntry[] {
+  const normalized = normalizeRelayUrl(url);
+  return entries.filter((e) => e.url !== normalized);
+}
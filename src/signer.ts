@@ -0,0 +1,135 @@
+/**
+ * Signers — sign events with a local key, a NIP-46 remote bunker, or an
+ * injected NIP-07 style provider, behind one interface
+ */
+
+import { finalizeEvent, getPublicKey, generateSecretKey, type EventTemplate, type VerifiedEvent } from 'nostr-tools/pure';
+import * as nip44 from 'nostr-tools/nip44';
+import { BunkerSigner, parseBunkerInput } from 'nostr-tools/nip46';
+
+export interface Signer {
+  getPublicKey(): Promise<string>;
+  signEvent(event: EventTemplate): Promise<VerifiedEvent>;
+  nip44Encrypt?(pubkey: string, plaintext: string): Promise<string>;
+  nip44Decrypt?(pubkey: string, ciphertext: string): Promise<string>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Anything the event builders accept: a raw secret key or a Signer
+ */
+export type SignerInput = Uint8Array | Signer;
+
+/**
+ * Signer backed by a secret key held in memory
+ */
+export class LocalSigner implements Signer {
+  private sk: Uint8Array;
+
+  constructor(sk: Uint8Array) {
+    this.sk = sk;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return getPublicKey(this.sk);
+  }
+
+  async signEvent(event: EventTemplate): Promise<VerifiedEvent> {
+    return finalizeEvent(event, this.sk);
+  }
+
+  async nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    return nip44.encrypt(plaintext, nip44.getConversationKey(this.sk, pubkey));
+  }
+
+  async nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    return nip44.decrypt(ciphertext, nip44.getConversationKey(this.sk, pubkey));
+  }
+}
+
+/**
+ * Minimal shape of a NIP-07 provider (window.nostr or equivalent)
+ */
+export interface InjectedNostr {
+  getPublicKey(): Promise<string>;
+  signEvent(event: EventTemplate): Promise<VerifiedEvent>;
+  nip44?: {
+    encrypt(pubkey: string, plaintext: string): Promise<string>;
+    decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  };
+}
+
+/**
+ * Signer that delegates to an injected NIP-07 style provider
+ */
+export class InjectedSigner implements Signer {
+  private provider: InjectedNostr;
+
+  constructor(provider: InjectedNostr) {
+    this.provider = provider;
+  }
+
+  getPublicKey(): Promise<string> {
+    return this.provider.getPublicKey();
+  }
+
+  signEvent(event: EventTemplate): Promise<VerifiedEvent> {
+    return this.provider.signEvent(event);
+  }
+
+  async nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    if (!this.provider.nip44) throw new Error('Injected signer does not support NIP-44');
+    return this.provider.nip44.encrypt(pubkey, plaintext);
+  }
+
+  async nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    if (!this.provider.nip44) throw new Error('Injected signer does not support NIP-44');
+    return this.provider.nip44.decrypt(pubkey, ciphertext);
+  }
+}
+
+export interface BunkerOptions {
+  /** Key used to talk to the bunker (a throwaway key is generated if omitted) */
+  clientSecretKey?: Uint8Array;
+  /** How long to wait for the bunker to accept the connection, in ms (default 30000) */
+  timeoutMs?: number;
+  /** Called when the bunker asks the user to approve the connection at a URL */
+  onAuth?: (url: string) => void;
+}
+
+/**
+ * Connect to a NIP-46 remote signer from a bunker:// URI or NIP-05 identifier
+ */
+export async function connectBunker(uri: string, options: BunkerOptions = {}): Promise<Signer> {
+  const pointer = await parseBunkerInput(uri);
+  if (!pointer) throw new Error('Invalid bunker URI. Expected bunker://<pubkey>?relay=wss://...');
+
+  const bunker = BunkerSigner.fromBunker(options.clientSecretKey || generateSecretKey(), pointer, {
+    onauth: options.onAuth,
+  });
+
+  const timeoutMs = options.timeoutMs ?? 30000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      bunker.connect(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Bunker did not respond within ${timeoutMs / 1000}s`)), timeoutMs);
+      }),
+    ]);
+  } catch (err) {
+    await bunker.close();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return bunker;
+}
+
+/**
+ * Wrap a raw secret key in a LocalSigner; pass Signers through unchanged
+ */
+export function toSigner(input: SignerInput): Signer {
+  return input instanceof Uint8Array ? new LocalSigner(input) : input;
+}
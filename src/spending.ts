@@ -0,0 +1,88 @@
+/**
+ * Spending ledger — audit log of every CLI payment, and per-identity budgets
+ * computed from it
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { SpendingLimitError } from './nwc.js';
+
+export type BudgetPeriod = 'day' | 'week' | 'month' | 'total';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'week', 'month', 'total'];
+
+export interface AuditEntry {
+  /** ISO timestamp */
+  at: string;
+  identity: string;
+  /** What the payment was for, e.g. "claim myagent@agentdex.id" */
+  purpose: string;
+  amountSats: number;
+  paymentHash?: string;
+  invoice: string;
+  status: 'paid' | 'failed' | 'declined';
+  preimage?: string;
+  reason?: string;
+  /** On a failed payment: the wallet confirmed the invoice was not paid */
+  unpaid?: boolean;
+}
+
+const PERIOD_MS: Record<Exclude<BudgetPeriod, 'total'>, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Append-only NDJSON audit log
+ */
+export class SpendingLedger {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  entries(): AuditEntry[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+
+  append(entry: AuditEntry): void {
+    const dir = this.path.substring(0, this.path.lastIndexOf('/'));
+    if (dir) mkdirSync(dir, { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + '\n', { mode: 0o600 });
+  }
+
+  /**
+   * Sats paid by an identity within the current budget period (rolling window).
+   * A failed payment stays reserved until the wallet confirms it unpaid, since
+   * one that timed out may still settle. Each invoice counts once.
+   */
+  spent(identity: string, period: BudgetPeriod = 'total', now = Date.now()): number {
+    const since = period === 'total' ? 0 : now - PERIOD_MS[period];
+    const reserved = new Map<string, { amountSats: number; paid: boolean }>();
+    for (const e of this.entries()) {
+      if (e.identity !== identity || Date.parse(e.at) < since) continue;
+      const key = e.paymentHash || e.invoice;
+      if (reserved.get(key)?.paid) continue;
+      if (e.status === 'paid') reserved.set(key, { amountSats: e.amountSats, paid: true });
+      else if (e.status === 'failed' && !e.unpaid) reserved.set(key, { amountSats: e.amountSats, paid: false });
+      else if (e.status === 'failed') reserved.delete(key);
+    }
+    return [...reserved.values()].reduce((sum, e) => sum + e.amountSats, 0);
+  }
+
+  /**
+   * Throw SpendingLimitError if paying amountSats would take the identity
+   * past its budget for the period
+   */
+  checkBudget(identity: string, amountSats: number, budgetSats: number, period: BudgetPeriod = 'total', now = Date.now()): void {
+    const spent = this.spent(identity, period, now);
+    if (spent + amountSats > budgetSats) {
+      throw new SpendingLimitError(`Paying ${amountSats} sats would exceed the ${budgetSats} sat ${period === 'total' ? '' : `per-${period} `}budget (${spent} sats spent)`);
+    }
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Profile validation — checks kind 31339 and kind 0 fields before they are
+ * signed, with messages that name the offending field
+ */
+
+import { nip19 } from 'nostr-tools';
+import type { AgentProfile, AgentProfileUpdate, Kind0Fields, PortfolioItem } from './nostr.js';
+
+export interface ValidationIssue {
+  /** Field path, e.g. `capabilities[2]` or `portfolio[0].url` */
+  field: string;
+  message: string;
+  /** Errors block signing; warnings are reported but the value is still used */
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Thrown when a profile has at least one error-severity issue
+ */
+export class ProfileValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const errors = issues.filter((i) => i.severity === 'error');
+    super(`Invalid profile: ${errors.map((i) => `${i.field} ${i.message}`).join('; ')}`);
+    this.name = 'ProfileValidationError';
+    this.issues = issues;
+  }
+}
+
+export const OWNER_TYPES = ['human', 'agent', 'org'];
+
+/** Availability states; `offline` is what a heartbeat publishes on shutdown */
+export const AGENT_STATUSES = ['active', 'busy', 'paused', 'retired', 'offline'] as const;
+export type AgentStatus = typeof AGENT_STATUSES[number];
+
+/**
+ * Who may message an agent: anyone, only agents registered on the directory,
+ * or no one. `messagingMinTrust` and `messagingFee` apply on top of the policy.
+ */
+export const MESSAGING_POLICIES = ['open', 'registered', 'closed'] as const;
+export type MessagingPolicy = typeof MESSAGING_POLICIES[number];
+
+/** Upper bound of the directory's trust score */
+export const MAX_TRUST_SCORE = 100;
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+
+/** For npubs passed where an event tag needs hex */
+const EVENT_PUBKEY_HINT = 'must be lowercase hex in the event (convert npubs with toHexPubkey)';
+
+/**
+ * Problem with a pubkey given as npub or hex, or null if it's fine
+ */
+export function pubkeyProblem(value: string): string | null {
+  if (value.startsWith('npub')) {
+    try {
+      return nip19.decode(value).type === 'npub' ? null : 'is not an npub';
+    } catch {
+      return 'is not a valid npub (bad checksum or length)';
+    }
+  }
+  if (HEX_PUBKEY.test(value.toLowerCase())) return null;
+  return `must be an npub or a 64-character hex pubkey (got ${value.length} characters)`;
+}
+
+/**
+ * Convert an npub or hex pubkey to lowercase hex, throwing a ProfileValidationError naming the field
+ */
+export function toHexPubkey(value: string, field: string): string {
+  const problem = pubkeyProblem(value);
+  if (problem) throw new ProfileValidationError([{ field, message: problem, severity: 'error' }]);
+  return value.startsWith('npub') ? nip19.decode(value).data as string : value.toLowerCase();
+}
+
+export function urlProblem(value: string, schemes = ['https:', 'http:']): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `is not a URL: "${value}"`;
+  }
+  if (!schemes.includes(url.protocol)) {
+    return `must use ${schemes.map((s) => s.replace(':', '')).join(' or ')} (got ${url.protocol.replace(':', '')})`;
+  }
+  return null;
+}
+
+/**
+ * URL scheme for a host: http for localhost, so a local stand-in can be used for testing
+ */
+export function schemeFor(host: string): 'http' | 'https' {
+  return /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(host) ? 'http' : 'https';
+}
+
+const HOSTNAME = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+/**
+ * Problem with a lightning address (user@domain.tld) or LNURL, or null if it's fine
+ */
+export function lightningAddressProblem(value: string): string | null {
+  if (/^lnurl1[02-9ac-hj-np-z]+$/i.test(value)) return null;
+  const at = value.lastIndexOf('@');
+  if (at < 0) return 'must be a lightning address like name@domain.com, or an lnurl1... string';
+  const [user, domain] = [value.slice(0, at), value.slice(at + 1)];
+  if (!/^[a-z0-9._+-]+$/.test(user)) return `has an invalid user part "${user}" (allowed: a-z, 0-9, "-", "_", ".", "+")`;
+  if (!HOSTNAME.test(domain)) return `has an invalid domain "${domain}"`;
+  return null;
+}
+
+/**
+ * Problem with the local part of a NIP-05 identifier (the `name` in name@agentdex.id), or null
+ */
+export function nip05NameProblem(name: string): string | null {
+  if (!name) return 'is empty';
+  if (name.length > 64) return `is ${name.length} characters long (max 64)`;
+  if (/[A-Z]/.test(name)) return `must be lowercase ("${name.toLowerCase()}")`;
+  if (!/^[a-z0-9._-]+$/.test(name)) return 'may only contain a-z, 0-9, "-", "_" and "."';
+  if (/^[.-]|[.-]$/.test(name)) return 'may not start or end with "." or "-"';
+  return null;
+}
+
+/**
+ * Problem with a full NIP-05 identifier (name@domain), or null
+ */
+export function nip05Problem(value: string): string | null {
+  const at = value.lastIndexOf('@');
+  if (at < 0) return 'must look like name@domain';
+  const name = value.slice(0, at);
+  const nameProblem = name === '_' ? null : nip05NameProblem(name);
+  if (nameProblem) return `name ${nameProblem}`;
+  if (!HOSTNAME.test(value.slice(at + 1))) return `has an invalid domain "${value.slice(at + 1)}"`;
+  return null;
+}
+
+/**
+ * Normalize a capability to a slug: lowercase, words joined with "-"
+ * ("Web Search" → "web-search")
+ */
+export function normalizeCapability(cap: string): string {
+  return cap
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9.+-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Normalize capabilities and drop empties and duplicates, keeping the first occurrence
+ */
+export function normalizeCapabilities(caps: string[]): string[] {
+  return [...new Set(caps.map(normalizeCapability).filter(Boolean))];
+}
+
+function checkList(issues: ValidationIssue[], field: string, values: string[] | undefined): void {
+  const seen = new Set<string>();
+  for (const [i, value] of (values || []).entries()) {
+    if (!value.trim()) issues.push({ field: `${field}[${i}]`, message: 'is empty', severity: 'error' });
+    else if (seen.has(value)) issues.push({ field: `${field}[${i}]`, message: `duplicates "${value}" and will be dropped`, severity: 'warning' });
+    seen.add(value);
+  }
+}
+
+function checkCapabilities(issues: ValidationIssue[], field: string, caps: string[] | undefined): void {
+  const seen = new Set<string>();
+  for (const [i, cap] of (caps || []).entries()) {
+    const slug = normalizeCapability(cap);
+    if (!slug) {
+      issues.push({ field: `${field}[${i}]`, message: `"${cap}" has no letters or digits`, severity: 'error' });
+      continue;
+    }
+    if (seen.has(slug)) {
+      issues.push({ field: `${field}[${i}]`, message: `"${cap}" duplicates "${slug}" and will be dropped`, severity: 'warning' });
+    } else if (slug !== cap) {
+      issues.push({ field: `${field}[${i}]`, message: `"${cap}" will be published as "${slug}"`, severity: 'warning' });
+    }
+    seen.add(slug);
+  }
+}
+
+function checkPortfolio(issues: ValidationIssue[], field: string, items: PortfolioItem[] | undefined): void {
+  const ids = new Set<string>();
+  for (const [i, item] of (items || []).entries()) {
+    const at = `${field}[${i}]`;
+    if (!item.id?.trim()) issues.push({ field: `${at}.id`, message: 'is empty', severity: 'error' });
+    else if (/\s/.test(item.id)) issues.push({ field: `${at}.id`, message: `"${item.id}" may not contain spaces`, severity: 'error' });
+    else if (ids.has(item.id)) issues.push({ field: `${at}.id`, message: `"${item.id}" is used by an earlier entry`, severity: 'error' });
+    ids.add(item.id);
+    const problem = item.url ? urlProblem(item.url) : 'is empty';
+    if (problem) issues.push({ field: `${at}.url`, message: problem, severity: 'error' });
+  }
+}
+
+/**
+ * Check kind 31339 profile fields. Empty strings mean "not set" and are skipped.
+ */
+export function validateProfile(profile: AgentProfile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, message, severity: 'error' });
+
+  if (profile.name !== undefined && profile.name !== '' && !profile.name.trim()) error('name', 'is blank');
+  checkCapabilities(issues, 'capabilities', profile.capabilities);
+  if (profile.ownerType && !OWNER_TYPES.includes(profile.ownerType)) {
+    error('ownerType', `must be one of ${OWNER_TYPES.join(', ')} (got "${profile.ownerType}")`);
+  }
+  if (profile.status && !(AGENT_STATUSES as readonly string[]).includes(profile.status)) {
+    issues.push({ field: 'status', message: `"${profile.status}" is not one of ${AGENT_STATUSES.join(', ')}`, severity: 'warning' });
+  }
+  if (profile.messagingPolicy && !(MESSAGING_POLICIES as readonly string[]).includes(profile.messagingPolicy)) {
+    issues.push({ field: 'messagingPolicy', message: `"${profile.messagingPolicy}" is not one of ${MESSAGING_POLICIES.join(', ')} and will be treated as open`, severity: 'warning' });
+  }
+  if (profile.ownerX && !/^@?[A-Za-z0-9_]{1,15}$/.test(profile.ownerX)) {
+    error('ownerX', `must be an X handle like @username (got "${profile.ownerX}")`);
+  }
+  if (profile.parent && !HEX_PUBKEY.test(profile.parent)) {
+    error('parent', pubkeyProblem(profile.parent) || EVENT_PUBKEY_HINT);
+  }
+  if (profile.messagingMinTrust !== undefined) {
+    const n = profile.messagingMinTrust;
+    if (!Number.isFinite(n) || n < 0 || n > MAX_TRUST_SCORE) error('messagingMinTrust', `must be between 0 and ${MAX_TRUST_SCORE} (got ${n})`);
+  }
+  if (profile.messagingFee !== undefined) {
+    const n = profile.messagingFee;
+    if (!Number.isInteger(n) || n < 0) error('messagingFee', `must be a whole number of sats, 0 or more (got ${n})`);
+  }
+  checkPortfolio(issues, 'portfolio', profile.portfolio);
+  checkList(issues, 'skills', profile.skills);
+  checkList(issues, 'experience', profile.experience);
+  return issues;
+}
+
+/**
+ * Check an update: the replacement fields plus the items it adds
+ */
+export function validateProfileUpdate(updates: AgentProfileUpdate): ValidationIssue[] {
+  const issues = validateProfile(updates);
+  checkCapabilities(issues, 'addCapabilities', updates.addCapabilities);
+  checkPortfolio(issues, 'addPortfolio', updates.addPortfolio);
+  checkList(issues, 'addSkills', updates.addSkills);
+  checkList(issues, 'addExperience', updates.addExperience);
+  return issues;
+}
+
+/**
+ * Check kind 0 fields. Empty strings mean "not set" and are skipped.
+ */
+export function validateKind0(fields: Kind0Fields): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const check = (field: string, value: string | undefined, problem: (v: string) => string | null) => {
+    const message = value ? problem(value) : null;
+    if (message) issues.push({ field, message, severity: 'error' });
+  };
+  check('picture', fields.picture, (v) => urlProblem(v));
+  check('website', fields.website, (v) => urlProblem(v));
+  check('lud16', fields.lud16, lightningAddressProblem);
+  check('nip05', fields.nip05, nip05Problem);
+  check('ownerPubkeyHex', fields.ownerPubkeyHex, (v) => HEX_PUBKEY.test(v) ? null : pubkeyProblem(v) || EVENT_PUBKEY_HINT);
+  return issues;
+}
+
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some((i) => i.severity === 'error');
+}
+
+/**
+ * Throw a ProfileValidationError if any issue is an error
+ */
+export function assertValid(issues: ValidationIssue[]): void {
+  if (hasErrors(issues)) throw new ProfileValidationError(issues);
+}
@@ -0,0 +1,227 @@
+/**
+ * Zaps (NIP-57) — tip an agent's lightning address with a signed zap
+ * request, and read back the zap receipts its wallet publishes
+ */
+
+import { createHash } from 'crypto';
+import { nip19 } from 'nostr-tools';
+import type { Event, VerifiedEvent } from 'nostr-tools/pure';
+import { fetchAgentProfile, fetchEvents, DEFAULT_RELAYS } from './nostr.js';
+import { relaysForAuthor } from './relays.js';
+import { fetchPayRequest, requestInvoice, payRequestUrl, encodeLnurl, type LnurlOptions, type PayRequest } from './lnurl.js';
+import { decodeInvoice, type DecodedInvoice } from './nwc.js';
+import { toSigner, type SignerInput } from './signer.js';
+
+export const ZAP_REQUEST_KIND = 9734;
+export const ZAP_RECEIPT_KIND = 9735;
+
+export interface ZapRequestParams {
+  /** Hex pubkey of the agent being zapped */
+  recipient: string;
+  amountSats: number;
+  /** Relays the recipient's wallet should publish the receipt to */
+  relays: string[];
+  comment?: string;
+  /** The recipient's bech32 lnurl (lnurl1...), echoed back in the request */
+  lnurl?: string;
+  /** Zap a specific event instead of the profile */
+  eventId?: string;
+}
+
+/**
+ * Build and sign a kind 9734 zap request. It is not published: it travels
+ * to the LNURL service with the invoice request.
+ */
+export async function createZapRequest(signer: SignerInput, params: ZapRequestParams): Promise<VerifiedEvent> {
+  const tags = [
+    ['relays', ...params.relays],
+    ['amount', String(params.amountSats * 1000)],
+    ['p', params.recipient],
+  ];
+  if (params.lnurl) tags.push(['lnurl', params.lnurl]);
+  if (params.eventId) tags.push(['e', params.eventId]);
+  return toSigner(signer).signEvent({
+    kind: ZAP_REQUEST_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: params.comment || '',
+  });
+}
+
+export interface ZapInvoice {
+  recipient: string;
+  /** The recipient's lightning address */
+  lud16: string;
+  payRequest: PayRequest;
+  zapRequest: VerifiedEvent;
+  invoice: string;
+  amountSats: number;
+  /** Relays the receipt will be published to */
+  relays: string[];
+}
+
+export interface ZapOptions extends LnurlOptions {
+  relays?: string[];
+  comment?: string;
+  eventId?: string;
+}
+
+/**
+ * The LNURL-pay handshake for a zap: read the recipient's lud16 from kind 0,
+ * check its service supports zaps, sign a zap request and get an invoice for it
+ */
+export async function requestZapInvoice(signer: SignerInput, recipientHex: string, amountSats: number, options: ZapOptions = {}): Promise<ZapInvoice> {
+  if (!Number.isInteger(amountSats) || amountSats < 1) throw new Error('Zap amount must be a whole number of sats, 1 or more');
+  const relays = options.relays || DEFAULT_RELAYS;
+  const authorRelays = await relaysForAuthor(recipientHex, relays);
+  const profile = await fetchAgentProfile(recipientHex, authorRelays);
+  if (!profile?.lud16) throw new Error(`${nip19.npubEncode(recipientHex)} has no lightning address (lud16) in kind 0`);
+
+  const payRequest = await fetchPayRequest(profile.lud16, options);
+  if (!payRequest.allowsNostr || !payRequest.nostrPubkey) throw new Error(`${profile.lud16} does not support zaps (NIP-57)`);
+
+  const zapRequest = await createZapRequest(signer, {
+    recipient: recipientHex,
+    amountSats,
+    relays: authorRelays,
+    comment: options.comment,
+    lnurl: encodeLnurl(payRequestUrl(profile.lud16)),
+    eventId: options.eventId,
+  });
+  const invoice = await requestInvoice(payRequest, amountSats * 1000, { nostr: JSON.stringify(zapRequest) }, options);
+  if (decodeInvoice(invoice).amountSats !== amountSats) throw new Error(`Zap invoice is not for ${amountSats} sats`);
+
+  return { recipient: recipientHex, lud16: profile.lud16, payRequest, zapRequest, invoice, amountSats, relays: authorRelays };
+}
+
+/**
+ * A kind 9735 zap receipt, with the zap request it carries
+ */
+export interface ZapReceipt {
+  id: string;
+  /** Hex pubkey of the wallet service that published the receipt */
+  zapper: string;
+  /** Hex pubkey of whoever sent the zap */
+  sender: string;
+  recipient: string;
+  amountSats: number;
+  comment: string;
+  /** Zapped event, if it wasn't a profile zap */
+  eventId: string | null;
+  bolt11: string;
+  /** Unix time (seconds) of the receipt */
+  createdAt: number;
+}
+
+/**
+ * Parse a zap receipt. Returns null if it's malformed: no invoice, a
+ * description that isn't a zap request for the same recipient, or an invoice
+ * that doesn't commit to that request (description hash) or its amount.
+ */
+export function parseZapReceipt(event: Event): ZapReceipt | null {
+  const tag = (name: string) => event.tags.find((t) => t[0] === name)?.[1];
+  const bolt11 = tag('bolt11');
+  const recipient = tag('p');
+  if (event.kind !== ZAP_RECEIPT_KIND || !bolt11 || !recipient) return null;
+
+  const description = tag('description') || '';
+  let request: Event;
+  let invoice: DecodedInvoice;
+  try {
+    request = JSON.parse(description);
+    invoice = decodeInvoice(bolt11);
+  } catch {
+    return null;
+  }
+  const amountSats = invoice.amountSats;
+  if (request?.kind !== ZAP_REQUEST_KIND || !request.tags.some((t) => t[0] === 'p' && t[1] === recipient) || amountSats === undefined) return null;
+  if (invoice.descriptionHash !== createHash('sha256').update(description, 'utf-8').digest('hex')) return null;
+  const requested = request.tags.find((t) => t[0] === 'amount')?.[1];
+  if (requested !== undefined && Number(requested) !== Math.round(amountSats * 1000)) return null;
+
+  return {
+    id: event.id,
+    zapper: event.pubkey,
+    sender: tag('P') || request.pubkey,
+    recipient,
+    amountSats,
+    comment: request.content,
+    eventId: tag('e') || null,
+    bolt11,
+    createdAt: event.created_at,
+  };
+}
+
+export interface FetchZapsOptions {
+  /** Only receipts at or after this unix time (seconds) */
+  since?: number;
+  limit?: number;
+  /**
+   * Only accept receipts signed by this pubkey: the `nostrPubkey` of the
+   * recipient's LNURL service. Anyone can publish a receipt, so without it
+   * the amounts can't be trusted.
+   */
+  zapperPubkey?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Fetch the zap receipts for a pubkey, newest first
+ */
+export async function fetchZaps(pubkeyHex: string, relays: string[] = DEFAULT_RELAYS, options: FetchZapsOptions = {}): Promise<ZapReceipt[]> {
+  const events = await fetchEvents(relays, {
+    kinds: [ZAP_RECEIPT_KIND],
+    '#p': [pubkeyHex],
+    ...(options.since !== undefined ? { since: options.since } : {}),
+    ...(options.zapperPubkey ? { authors: [options.zapperPubkey] } : {}),
+  }, options.timeoutMs ?? 10000);
+
+  const unique = [...new Map(events.map((e) => [e.id, e])).values()];
+  const zaps = unique
+    .filter((e) => !options.zapperPubkey || e.pubkey === options.zapperPubkey)
+    .filter((e) => options.since === undefined || e.created_at >= options.since)
+    .map(parseZapReceipt)
+    .filter((z): z is ZapReceipt => !!z && z.recipient === pubkeyHex)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  return options.limit !== undefined ? zaps.slice(0, options.limit) : zaps;
+}
+
+/**
+ * Poll the receipt relays until the recipient's wallet publishes the receipt
+ * for this invoice. Returns null if none shows up within timeoutMs.
+ */
+export async function waitForZapReceipt(zap: Pick<ZapInvoice, 'recipient' | 'invoice' | 'relays' | 'payRequest'>, options: { timeoutMs?: number; intervalMs?: number; signal?: AbortSignal } = {}): Promise<ZapReceipt | null> {
+  const deadline = Date.now() + (options.timeoutMs ?? 30000);
+  const since = decodeInvoice(zap.invoice).timestamp - 60;
+  while (!options.signal?.aborted) {
+    const receipts = await fetchZaps(zap.recipient, zap.relays, { since, zapperPubkey: zap.payRequest.nostrPubkey, timeoutMs: 5000 });
+    const receipt = receipts.find((r) => r.bolt11 === zap.invoice);
+    if (receipt) return receipt;
+    if (Date.now() >= deadline) return null;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(options.intervalMs ?? 2000, Math.max(0, deadline - Date.now()))));
+  }
+  return null;
+}
+
+export interface ZapResult extends ZapInvoice {
+  preimage: string;
+  /** The kind 9735 receipt, or null if the wallet didn't publish one in time */
+  receipt: ZapReceipt | null;
+}
+
+/**
+ * Zap an agent: request the invoice, pay it through `payer` (e.g. payInvoice
+ * over NWC), then wait for the receipt
+ */
+export async function zap(
+  signer: SignerInput,
+  recipientHex: string,
+  amountSats: number,
+  payer: (invoice: string, amountSats: number) => Promise<{ preimage: string }>,
+  options: ZapOptions & { receiptTimeoutMs?: number } = {},
+): Promise<ZapResult> {
+  const request = await requestZapInvoice(signer, recipientHex, amountSats, options);
+  const { preimage } = await payer(request.invoice, amountSats);
+  const receipt = await waitForZapReceipt(request, { timeoutMs: options.receiptTimeoutMs });
+  return { ...request, preimage, receipt };
+}
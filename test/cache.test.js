@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { AgentdexClient, AgentdexApiError, MemoryCacheStore, parseCacheControl } from '../dist/index.js';
+
+const HEX = 'a'.repeat(64);
+
+test('parseCacheControl', () => {
+  assert.deepEqual(parseCacheControl('public, max-age=60, s-maxage=30, stale-while-revalidate="120"'), { noStore: false, noCache: false, maxAge: 30, staleWhileRevalidate: 120 });
+  assert.deepEqual(parseCacheControl('no-store, max-age=-1'), { noStore: true, noCache: false, maxAge: undefined, staleWhileRevalidate: undefined });
+  assert.deepEqual(parseCacheControl(null), { noStore: false, noCache: false, maxAge: undefined, staleWhileRevalidate: undefined });
+});
+
+// A directory whose verify answer is numbered by request; `respond` may override it
+function fakeDirectory(respond = () => undefined) {
+  const calls = [];
+  const fetch = async (url, init) => {
+    calls.push({ url, headers: init.headers });
+    return respond(calls.length, init.headers) ?? new Response(JSON.stringify({ registered: true, name: `v${calls.length}` }), { status: 200 });
+  };
+  return { fetch, calls };
+}
+
+test('a fresh response is served from the cache, a stale one while it revalidates', async () => {
+  const hits = [];
+  const { fetch, calls } = fakeDirectory((n) => new Response(JSON.stringify({ name: `v${n}` }), { status: 200, headers: { 'Cache-Control': n === 1 ? 'max-age=60' : 'max-age=0' } }));
+  const store = new MemoryCacheStore();
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, cache: { store, onHit: (hit) => hits.push(hit) } });
+
+  assert.equal((await client.verify(HEX)).name, 'v1');
+  assert.equal((await client.verify(HEX)).name, 'v1');
+  assert.equal(calls.length, 1);
+
+  // Age the entry past its TTL: the old answer comes back at once and a new one is fetched behind it
+  const [[key, entry]] = await store.entries();
+  await store.set(key, { ...entry, expiresAt: Date.now() - 1 });
+  assert.equal((await client.verify(HEX)).name, 'v1');
+  await sleep(20);
+  assert.equal(calls.length, 2);
+  assert.deepEqual(hits.map((hit) => [hit.stale, hit.revalidating]), [[false, false], [true, true]]);
+  assert.equal((await client.verify(HEX)).name, 'v2');
+
+  assert.equal((await client.verify(HEX, { cache: false })).name, 'v4');
+});
+
+test('an ETag revalidates with If-None-Match and a 304 keeps the cached body', async () => {
+  const { fetch, calls } = fakeDirectory((n, headers) => n === 1
+    ? new Response(JSON.stringify({ name: 'v1' }), { status: 200, headers: { ETag: '"abc"', 'Cache-Control': 'no-cache' } })
+    : headers['If-None-Match'] === '"abc"' ? new Response(null, { status: 304 }) : undefined);
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, cache: true });
+
+  assert.equal((await client.verify(HEX)).name, 'v1');
+  assert.equal((await client.verify(HEX)).name, 'v1');
+  assert.equal(calls.length, 2);
+  assert.equal(calls[1].headers['If-None-Match'], '"abc"');
+});
+
+test('offline, only the cache answers', async () => {
+  const store = new MemoryCacheStore();
+  const online = new AgentdexClient({ baseUrl: 'http://directory.test', fetch: fakeDirectory().fetch, cache: { store } });
+  await online.verify(HEX);
+
+  // However old the entry is
+  const [[key, entry]] = await store.entries();
+  await store.set(key, { ...entry, expiresAt: 0, staleUntil: 0 });
+
+  const { fetch, calls } = fakeDirectory();
+  const offline = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, cache: { store, offline: true } });
+  assert.equal((await offline.verify(HEX)).name, 'v1');
+  await assert.rejects(offline.verify('b'.repeat(64)), (err) => err instanceof AgentdexApiError && err.code === 'offline');
+  assert.equal(calls.length, 0);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentdexClient, AgentdexApiError } from '../dist/index.js';
+
+const HEX = 'a'.repeat(64);
+const AGENT = { registered: true, name: 'agent' };
+
+// A fetch that answers with each response in turn and records the requests
+function fakeFetch(...responses) {
+  const calls = [];
+  const fetch = async (url, init) => {
+    calls.push({ url, init });
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    return typeof next === 'function' ? next(init) : next();
+  };
+  return { fetch, calls };
+}
+
+const json = (status, body, headers = {}) => () => new Response(JSON.stringify(body), { status, headers });
+
+test('a 429 waits out Retry-After, then retries', async () => {
+  const { fetch, calls } = fakeFetch(json(429, { error: 'slow down' }, { 'Retry-After': '1' }), json(200, AGENT));
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch });
+  const started = Date.now();
+  assert.deepEqual(await client.verify(HEX), AGENT);
+  assert.equal(calls.length, 2);
+  assert.ok(Date.now() - started >= 900);
+});
+
+test('a Retry-After past maxRetryAfterMs fails at once and names the wait', async () => {
+  const { fetch, calls } = fakeFetch(json(429, { error: 'slow down' }, { 'Retry-After': '120' }));
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch });
+  await assert.rejects(client.verify(HEX), (err) => err instanceof AgentdexApiError && err.status === 429 && err.retryAfter === 120 && err.message === 'slow down (retry after 120s)');
+  assert.equal(calls.length, 1);
+});
+
+test('a GET is retried after a 5xx', async () => {
+  const { fetch, calls } = fakeFetch(json(503, { error: 'unavailable' }), json(502, {}), json(200, AGENT));
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, retryDelayMs: 1 });
+  assert.deepEqual(await client.verify(HEX), AGENT);
+  assert.equal(calls.length, 3);
+});
+
+test('a POST is not retried after a 5xx', async () => {
+  const { fetch, calls } = fakeFetch(json(500, { error: 'boom', code: 'internal' }), json(200, { ok: true }));
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, retryDelayMs: 1 });
+  await assert.rejects(client.register({}), (err) => err instanceof AgentdexApiError && err.status === 500 && err.code === 'internal');
+  assert.equal(calls.length, 1);
+});
+
+test('a request that outlives timeoutMs fails with code timeout', async () => {
+  // AbortSignal.timeout doesn't hold the event loop open, so the hung request does
+  const hang = (init) => new Promise((_, reject) => {
+    const open = setTimeout(() => {}, 5000);
+    init.signal.addEventListener('abort', () => {
+      clearTimeout(open);
+      reject(init.signal.reason);
+    });
+  });
+  const { fetch, calls } = fakeFetch(hang);
+  const client = new AgentdexClient({ baseUrl: 'http://directory.test', fetch, timeoutMs: 50, retries: 1, retryDelayMs: 1 });
+  await assert.rejects(client.verify(HEX), (err) => err instanceof AgentdexApiError && err.code === 'timeout' && err.status === 0);
+  assert.equal(calls.length, 2);
+});
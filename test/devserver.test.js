@@ -0,0 +1,61 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSecretKey, getPublicKey, finalizeEvent } from 'nostr-tools/pure';
+import { nip19 } from 'nostr-tools';
+import { AgentdexClient, DevServer, createProfileEvent, publishEvent, fetchEvents, checkFeeProof } from '../dist/index.js';
+
+const server = new DevServer({ port: 0, registerPriceSats: 100, claimPriceSats: 500 });
+let client;
+let relayUrl;
+
+before(async () => {
+  const started = await server.start();
+  client = new AgentdexClient({ baseUrl: started.url, retries: 0 });
+  relayUrl = started.relayUrl;
+});
+
+after(() => server.stop());
+
+// Pays like a wallet would: the dev server settles the invoice
+const payer = async (_invoice, payment) => server.pay(payment.paymentHash);
+
+test('register → claim → verify', async () => {
+  const sk = generateSecretKey();
+  const pubkey = getPublicKey(sk);
+
+  const registered = await client.registerWithPayment(createProfileEvent(sk, { name: 'test-agent', capabilities: ['testing'] }), { payer, pollIntervalMs: 10 });
+  assert.equal(registered.payment?.amountSats, 100);
+
+  const claimed = await client.claimWithPayment('test-agent', createProfileEvent(sk, { name: 'test-agent', status: 'active' }), { payer, pollIntervalMs: 10 });
+  assert.equal(claimed.payment?.amountSats, 500);
+
+  const result = await client.verify(nip19.npubEncode(pubkey));
+  assert.equal(result.registered, true);
+  assert.equal(result.name, 'test-agent');
+  assert.deepEqual(result.capabilities, ['testing']);
+
+  // The claimed name resolves through the dev server's nostr.json
+  assert.equal(await client.resolvePubkey('test-agent@agentdex.id'), pubkey);
+});
+
+test('a dev invoice and its preimage pass checkFeeProof', async () => {
+  const sk = generateSecretKey();
+  const { response } = await client.registerWithPayment(createProfileEvent(sk, { name: 'fee-payer' }), { payer, pollIntervalMs: 10 });
+  const { preimage } = server.invoices.get(response.payment_hash);
+
+  assert.deepEqual(checkFeeProof({ tags: [['fee', response.invoice, preimage]] }, 100), { paymentHash: response.payment_hash, amountSats: 100 });
+  assert.equal(checkFeeProof({ tags: [['fee', response.invoice, preimage]] }, 101), 'Fee invoice is for 100 sats, 101 required');
+  assert.equal(checkFeeProof({ tags: [['fee', response.invoice, '00'.repeat(32)]] }, 100), 'Fee preimage does not match the invoice');
+});
+
+test('the bundled relay stores and serves events', { skip: typeof WebSocket === 'undefined' && 'no global WebSocket (run with --experimental-websocket)' }, async () => {
+  const sk = generateSecretKey();
+  // Long enough content to need a 16-bit frame length
+  const event = finalizeEvent({ kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: 'x'.repeat(300) }, sk);
+
+  const report = await publishEvent(event, [relayUrl], { retries: 0, timeoutMs: 2000 });
+  assert.equal(report.ok, true);
+
+  const events = await fetchEvents([relayUrl], { authors: [getPublicKey(sk)] }, 2000);
+  assert.deepEqual(events.map((e) => e.id), [event.id]);
+});
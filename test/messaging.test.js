@@ -0,0 +1,8 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkFeeProof } from '../dist/index.js';
+
+test('checkFeeProof rejects missing and malformed proofs', () => {
+  assert.equal(checkFeeProof({ tags: [] }, 21), 'No payment for the 21 sat fee');
+  assert.equal(checkFeeProof({ tags: [['fee', 'lnbc1notaninvoice', '00']] }, 21), 'Fee invoice is not a valid bolt11 invoice');
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeProfileTags } from '../dist/index.js';
+
+test('mergeProfileTags replaces scalars, keeps unknown tags and edits lists', () => {
+  const before = [['d', 'agentdex-profile'], ['name', 'old'], ['status', 'active'], ['custom', 'x'], ['capability', 'a'], ['capability', 'b']];
+
+  assert.deepEqual(mergeProfileTags(before, { name: 'new', status: '', addCapabilities: ['c'], removeCapabilities: ['a'] }), [
+    ['d', 'agentdex-profile'], ['name', 'new'], ['custom', 'x'], ['capability', 'b'], ['capability', 'c'],
+  ]);
+  assert.deepEqual(mergeProfileTags([['name', 'a']], {}), [['d', 'agentdex-profile'], ['name', 'a']]);
+});
+
+test('mergeProfileTags mirrors the parent into a p tag', () => {
+  const hex = 'a'.repeat(64);
+  const other = 'b'.repeat(64);
+  const before = [['d', 'agentdex-profile'], ['name', 'child'], ['parent', hex], ['p', hex, '', 'parent']];
+
+  assert.deepEqual(mergeProfileTags(before, { parent: other }), [
+    ['d', 'agentdex-profile'], ['name', 'child'], ['parent', other], ['p', other, '', 'parent'],
+  ]);
+  assert.deepEqual(mergeProfileTags(before, { parent: '' }).filter((t) => t[0] === 'parent' || t[0] === 'p'), []);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bech32 } from '@scure/base';
+import { SpendingLedger, SpendingLimitError, checkInvoice } from '../dist/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function ledgerWith(entries) {
+  const dir = mkdtempSync(join(tmpdir(), 'agentdex-ledger-'));
+  const ledger = new SpendingLedger(join(dir, 'audit.ndjson'));
+  for (const entry of entries) {
+    ledger.append({ identity: 'default', purpose: 'test', invoice: `lnbc-${entry.paymentHash}`, ...entry, at: new Date(NOW - entry.ago).toISOString() });
+  }
+  return { ledger, done: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+test('spent() counts payments inside the rolling period, per identity', () => {
+  const { ledger, done } = ledgerWith([
+    { paymentHash: 'a', amountSats: 100, status: 'paid', ago: 60 * 60 * 1000 },
+    { paymentHash: 'b', amountSats: 200, status: 'paid', ago: 3 * DAY },
+    { paymentHash: 'c', amountSats: 400, status: 'paid', ago: 40 * DAY },
+    { paymentHash: 'd', amountSats: 800, status: 'paid', ago: 0, identity: 'other' },
+    { paymentHash: 'e', amountSats: 1600, status: 'declined', ago: 0 },
+  ]);
+  assert.equal(ledger.spent('default', 'day', NOW), 100);
+  assert.equal(ledger.spent('default', 'week', NOW), 300);
+  assert.equal(ledger.spent('default', 'month', NOW), 300);
+  assert.equal(ledger.spent('default', 'total', NOW), 700);
+  assert.equal(ledger.spent('other', 'day', NOW), 800);
+  done();
+});
+
+test('a failed payment stays reserved until the wallet confirms it unpaid', () => {
+  const { ledger, done } = ledgerWith([
+    { paymentHash: 'a', amountSats: 100, status: 'failed', ago: 2000 },
+    { paymentHash: 'b', amountSats: 200, status: 'failed', ago: 2000 },
+    { paymentHash: 'b', amountSats: 200, status: 'failed', unpaid: true, ago: 1000 },
+    { paymentHash: 'c', amountSats: 400, status: 'failed', ago: 2000 },
+    { paymentHash: 'c', amountSats: 400, status: 'paid', ago: 1000 },
+  ]);
+  // a is reserved, b was confirmed unpaid, c failed then settled and counts once
+  assert.equal(ledger.spent('default', 'day', NOW), 500);
+  done();
+});
+
+test('checkBudget rejects a payment that would exceed the budget', () => {
+  const { ledger, done } = ledgerWith([
+    { paymentHash: 'a', amountSats: 900, status: 'paid', ago: 2 * DAY },
+  ]);
+  assert.doesNotThrow(() => ledger.checkBudget('default', 100, 1000, 'total', NOW));
+  assert.throws(() => ledger.checkBudget('default', 101, 1000, 'total', NOW),
+    (err) => err instanceof SpendingLimitError && err.message === 'Paying 101 sats would exceed the 1000 sat budget (900 sats spent)');
+  // The payment two days ago is outside today's window
+  assert.doesNotThrow(() => ledger.checkBudget('default', 1000, 1000, 'day', NOW));
+  done();
+});
+
+// An invoice with an amount and payment hash; checkInvoice doesn't check signatures
+function invoice(hrp) {
+  const timestamp = bech32.toWords(Buffer.from(Math.floor(Date.now() / 1000).toString(16).padStart(10, '0'), 'hex')).slice(-7);
+  const paymentHash = [1, 1, 20, ...bech32.toWords(Buffer.from('ab'.repeat(32), 'hex'))];
+  return bech32.encode(hrp, [...timestamp, ...paymentHash, ...new Array(104).fill(0)], false);
+}
+
+test('checkInvoice enforces the sat cap and the quoted amount', () => {
+  assert.equal(checkInvoice(invoice('lnbc1u'), { maxSats: 100 }).amountSats, 100);
+  assert.throws(() => checkInvoice(invoice('lnbc1010n'), { maxSats: 100 }),
+    (err) => err instanceof SpendingLimitError && /101 sats exceeds the 100 sat cap/.test(err.message));
+  assert.throws(() => checkInvoice(invoice('lnbc1u'), { expectedSats: 50 }), /quoted 50 sats/);
+  assert.throws(() => checkInvoice(invoice('lnbc'), {}), /without an amount/);
+});
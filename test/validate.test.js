@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nip19 } from 'nostr-tools';
+import { validateProfile, toHexPubkey, lightningAddressProblem, nip05Problem, normalizeCapabilities, ProfileValidationError } from '../dist/index.js';
+
+const HEX = 'a'.repeat(64);
+
+test('validateProfile flags bad fields and warns on unknown values', () => {
+  const issues = validateProfile({ name: '  ', ownerType: 'robot', status: 'napping', messagingFee: 1.5, parent: 'nope' });
+  assert.deepEqual(issues.filter((i) => i.severity === 'error').map((i) => i.field), ['name', 'ownerType', 'parent', 'messagingFee']);
+  assert.deepEqual(issues.filter((i) => i.severity === 'warning').map((i) => i.field), ['status']);
+  assert.deepEqual(validateProfile({ name: 'ok', parent: HEX, messagingFee: 0 }), []);
+});
+
+test('toHexPubkey accepts hex and npubs and names the field otherwise', () => {
+  assert.equal(toHexPubkey(HEX.toUpperCase(), 'pubkey'), HEX);
+  assert.equal(toHexPubkey(nip19.npubEncode(HEX), 'pubkey'), HEX);
+  assert.throws(() => toHexPubkey('npub1xyz', 'parent'), (err) => err instanceof ProfileValidationError && err.issues[0].field === 'parent');
+});
+
+test('lightning addresses and NIP-05 identifiers', () => {
+  assert.equal(lightningAddressProblem('agent@getalby.com'), null);
+  assert.match(lightningAddressProblem('Agent@getalby.com'), /invalid user part/);
+  assert.match(lightningAddressProblem('agent'), /must be a lightning address/);
+  assert.equal(nip05Problem('_@example.com'), null);
+  assert.match(nip05Problem('-agent@example.com'), /may not start or end/);
+});
+
+test('normalizeCapabilities slugs and dedupes', () => {
+  assert.deepEqual(normalizeCapabilities(['Web Search', 'web_search', '  ', 'C++']), ['web-search', 'c++']);
+});
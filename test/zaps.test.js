@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { bech32 } from '@scure/base';
+import { generateSecretKey, finalizeEvent } from 'nostr-tools/pure';
+import { parseZapReceipt, encodeLnurl, payRequestUrl } from '../dist/index.js';
+
+// An unsigned bolt11 with a payment hash and a description hash; decodeInvoice doesn't check signatures
+function fakeInvoice(hrp, descriptionHash) {
+  const field = (type, hex) => [type, 1, 20, ...bech32.toWords(Buffer.from(hex, 'hex'))];
+  const timestamp = [0, 0, 0, 0, 0, 0, 1];
+  return bech32.encode(hrp, [...timestamp, ...field(1, 'ab'.repeat(32)), ...field(23, descriptionHash), ...new Array(104).fill(0)], false);
+}
+
+test('parseZapReceipt checks the invoice commits to the zap request and its amount', () => {
+  const recipient = 'a'.repeat(64);
+  const request = finalizeEvent({ kind: 9734, created_at: 1, tags: [['p', recipient], ['amount', '21000']], content: 'gm' }, generateSecretKey());
+  const description = JSON.stringify(request);
+  const hash = createHash('sha256').update(description).digest('hex');
+  const receipt = (bolt11) => finalizeEvent({ kind: 9735, created_at: 2, tags: [['p', recipient], ['bolt11', bolt11], ['description', description]], content: '' }, generateSecretKey());
+
+  const zap = parseZapReceipt(receipt(fakeInvoice('lnbc210n', hash)));
+  assert.equal(zap?.amountSats, 21);
+  assert.equal(zap?.sender, request.pubkey);
+  assert.equal(parseZapReceipt(receipt(fakeInvoice('lnbc210n', 'cd'.repeat(32)))), null);
+  assert.equal(parseZapReceipt(receipt(fakeInvoice('lnbc2100n', hash))), null);
+});
+
+test('encodeLnurl round-trips through payRequestUrl', () => {
+  const url = payRequestUrl('agent@getalby.com');
+  assert.equal(url, 'https://getalby.com/.well-known/lnurlp/agent');
+  assert.match(encodeLnurl(url), /^lnurl1/);
+  assert.equal(payRequestUrl(encodeLnurl(url)), url);
+});